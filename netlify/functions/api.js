@@ -3,7 +3,10 @@ import { PrismaClient } from '@prisma/client';
 import { withAccelerate } from '@prisma/extension-accelerate';
 import express from 'express';
 import cors from 'cors';
-import { randomUUID } from 'crypto';
+import {
+  randomUUID, randomBytes, randomInt, createHash, createHmac, timingSafeEqual,
+  createCipheriv, createECDH, createPrivateKey, hkdfSync, sign
+} from 'crypto';
 import cookie from 'cookie';
 import serverless from 'serverless-http';
 import * as Ably from 'ably';
@@ -19,40 +22,15 @@ async function getConfigValue(key) {
   return config?.value;
 }
 
-// Helper to get and increment the last issued position for a station
+// Helper to get and increment the last issued position for a station.
+// A single UPDATE ... RETURNING on the station row, so concurrent joins never get the same number.
 async function getNextPositionForStation(stationId) {
-  const positionKey = `lastPosition:${stationId}`;
-
-  // Use a transaction to ensure we don't have race conditions
-  return prisma.$transaction(async (tx) => {
-    // Try to get the last position for this station
-    const lastPositionConfig = await tx.config.findUnique({
-      where: { key: positionKey }
-    });
-
-    let lastPosition;
-    if (!lastPositionConfig) {
-      // If we don't have a last position, start from 99 (so next position will be 100)
-      lastPosition = 99;
-      // Create the initial record
-      await tx.config.create({
-        data: { key: positionKey, value: String(lastPosition) }
-      });
-    } else {
-      lastPosition = parseInt(lastPositionConfig.value, 10);
-    }
-
-    // Increment the position
-    const nextPosition = lastPosition + 1;
-
-    // Update the last position in the database
-    await tx.config.update({
-      where: { key: positionKey },
-      data: { value: String(nextPosition) }
-    });
-
-    return nextPosition;
+  const station = await prisma.station.update({
+    where: { id: stationId },
+    data: { lastPosition: { increment: 1 } },
+    select: { lastPosition: true }
   });
+  return station.lastPosition;
 }
 
 // Helper to initialize Ably with the API key from the database
@@ -78,32 +56,202 @@ const CHANNEL_NAMES = {
   QUEUE: (stationId) => `queue:${stationId}`,
   STATIONS: 'stations',
   MY_QUEUES: (userId) => `my-queues:${userId}`,
+  BOARD: (stationId) => `board:${stationId}`,
 };
 
 const EVENT_NAMES = {
   QUEUE_UPDATE: 'queue:update',
   QUEUE_POP: 'queue:pop',
+  TICKET_RECALL: 'ticket:recall',
   STATION_UPDATE: 'station:update',
   STATION_CREATE: 'station:create',
   STATION_DELETE: 'station:delete',
 };
 
-// Enhanced helper to publish to Ably channels with retry logic
-const publishToChannel = async (channelName, eventName, data, maxRetries = 3) => {
-  const attemptPublish = async (retryCount = 0) => {
-    try {
-      // Cache Ably instance for the lifetime of the function
+// Ticket lifecycle: waiting -> called -> serving -> completed, or called -> no_show.
+// A user may also leave on their own while waiting or called.
+const TICKET_STATUS = {
+  WAITING: 'waiting',
+  CALLED: 'called',
+  SERVING: 'serving',
+  COMPLETED: 'completed',
+  NO_SHOW: 'no_show',
+  LEFT: 'left',
+};
+
+// Tickets that still occupy a spot at the station
+const ACTIVE_TICKET_STATUSES = [TICKET_STATUS.WAITING, TICKET_STATUS.CALLED, TICKET_STATUS.SERVING];
+
+// Event types recorded in the QueueEvent ledger
+const QUEUE_EVENT_TYPES = {
+  JOINED: 'joined',
+  CALLED: 'called',
+  SERVED: 'served',
+  COMPLETED: 'completed',
+  NO_SHOW: 'no_show',
+  REQUEUED: 'requeued',
+  LEFT: 'left',
+};
+
+// Manager actions on a called ticket, keyed by the action segment of the route
+const TICKET_TRANSITIONS = {
+  serve: {
+    from: [TICKET_STATUS.CALLED],
+    to: TICKET_STATUS.SERVING,
+    timestampField: 'servedAt',
+    ledgerEvent: QUEUE_EVENT_TYPES.SERVED,
+  },
+  complete: {
+    from: [TICKET_STATUS.CALLED, TICKET_STATUS.SERVING],
+    to: TICKET_STATUS.COMPLETED,
+    timestampField: 'finishedAt',
+    ledgerEvent: QUEUE_EVENT_TYPES.COMPLETED,
+  },
+  'no-show': {
+    from: [TICKET_STATUS.CALLED],
+    to: TICKET_STATUS.NO_SHOW,
+    timestampField: 'finishedAt',
+    ledgerEvent: QUEUE_EVENT_TYPES.NO_SHOW,
+  },
+};
+
+// Lifetime of client realtime tokens; clients renew them before they expire
+const REALTIME_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Tokens are signed with the subscribe-only frontend key, so no token can ever publish.
+// The key itself never leaves the server.
+let ablyTokenSigner = { client: null, expires: 0 };
+
+async function getAblyTokenSigner() {
+  const now = Date.now();
+  if (ablyTokenSigner.client && ablyTokenSigner.expires > now) {
+    return ablyTokenSigner.client;
+  }
+
+  const apiKey = await getConfigValue('VITE_ABLY_API_KEY');
+  if (!apiKey) return null;
+
+  ablyTokenSigner = { client: new Ably.Rest({ key: apiKey }), expires: now + 5 * 60 * 1000 };
+  return ablyTokenSigner.client;
+}
+
+// Realtime transports share one shape:
+//   publish(channelName, eventName, data)  send one message
+//   reset()                                drop cached connections before a retry
+//   issueToken({ clientId, capability })   credentials for a browser, or null if not configured
+const ablyTransport = {
+  async publish(channelName, eventName, data) {
+    // Cache Ably instance for the lifetime of the function
+    if (!ably) {
+      ably = await initializeAbly();
       if (!ably) {
-        ably = await initializeAbly();
-        if (!ably) {
-          throw new Error('Ably not initialized');
-        }
+        throw new Error('Ably not initialized');
+      }
+    }
+    return ably.channels.get(channelName).publish(eventName, data);
+  },
+
+  reset() {
+    ably = null;
+  },
+
+  async issueToken({ clientId, capability }) {
+    const signer = await getAblyTokenSigner();
+    if (!signer) {
+      console.error('VITE_ABLY_API_KEY not found in database. Check your configuration.');
+      return null;
+    }
+    return signer.auth.createTokenRequest({ clientId, capability, ttl: REALTIME_TOKEN_TTL_MS });
+  },
+};
+
+// Self-hosted alternative to Ably: browsers hold a Server-Sent Events stream open on
+// GET /realtime/events and receive every message their token's capability allows.
+// Subscribers live in this process, so it needs a long-running server such as dev-server.js.
+const SSE_KEEPALIVE_MS = 25 * 1000;
+// Tokens are HMAC-signed rather than stored; they only need to outlive this process
+const sseTokenSecret = randomBytes(32);
+const sseClients = new Set();
+
+const signSseToken = (payload) => createHmac('sha256', sseTokenSecret).update(payload).digest('base64url');
+
+// Ably-style matching: a resource either names the channel or ends in ':*' to cover a namespace
+const capabilityAllows = (capability, channelName) =>
+  Object.keys(capability).some(resource =>
+    resource === channelName || (resource.endsWith(':*') && channelName.startsWith(resource.slice(0, -1)))
+  );
+
+function verifySseToken(token) {
+  const [payload, mac] = String(token ?? '').split('.');
+  if (!payload || !mac) return null;
+
+  const expected = Buffer.from(signSseToken(payload));
+  const given = Buffer.from(mac);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return claims.expires > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+const sseTransport = {
+  async publish(channelName, eventName, data) {
+    const message = `data: ${JSON.stringify({ channel: channelName, name: eventName, data })}\n\n`;
+    for (const client of sseClients) {
+      if (capabilityAllows(client.capability, channelName)) {
+        client.res.write(message);
       }
+    }
+  },
+
+  reset() {},
+
+  async issueToken({ clientId, capability }) {
+    const expires = Date.now() + REALTIME_TOKEN_TTL_MS;
+    const payload = Buffer.from(JSON.stringify({ clientId, capability, expires })).toString('base64url');
+    return { transport: 'sse', token: `${payload}.${signSseToken(payload)}`, expires };
+  },
 
-      const channel = ably.channels.get(channelName);
+  stream(req, res) {
+    const claims = verifySseToken(req.query.token);
+    if (!claims) {
+      return res.status(401).json({ error: 'Invalid or expired realtime token' });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+    res.write(': connected\n\n');
+
+    const client = { res, capability: claims.capability };
+    sseClients.add(client);
+    const keepAlive = setInterval(() => res.write(': ping\n\n'), SSE_KEEPALIVE_MS);
+    // End the stream when the token runs out, so the client reconnects with a fresh capability
+    const expiry = setTimeout(() => res.end(), claims.expires - Date.now());
+
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      clearTimeout(expiry);
+      sseClients.delete(client);
+    });
+  },
+};
+
+const realtimeTransport = process.env.REALTIME_TRANSPORT === 'sse' ? sseTransport : ablyTransport;
+
+// Enhanced helper to publish to realtime channels with retry logic
+const publishToChannel = async (channelName, eventName, data, maxRetries = 3) => {
+  const attemptPublish = async (retryCount = 0) => {
+    try {
       console.log(`Publishing to ${channelName}:${eventName}`, data);
 
-      const result = await channel.publish(eventName, data);
+      const result = await realtimeTransport.publish(channelName, eventName, data);
       console.log(`Successfully published to ${channelName}:${eventName}`);
       return result;
     } catch (error) {
@@ -114,9 +262,9 @@ const publishToChannel = async (channelName, eventName, data, maxRetries = 3) =>
         console.log(`Retrying publish to ${channelName}:${eventName} in ${delay}ms`);
         await new Promise(resolve => setTimeout(resolve, delay));
 
-        // Reset ably instance on retry to ensure fresh connection
+        // Reset the transport on retry to ensure a fresh connection
         if (retryCount > 0) {
-          ably = null;
+          realtimeTransport.reset();
         }
 
         return attemptPublish(retryCount + 1);
@@ -144,9 +292,481 @@ const publishToChannelsParallel = async (publishPromises) => {
   return results.filter(result => result.status === 'fulfilled').length;
 };
 
+// Web Push (RFC 8030): the payload is encrypted for the browser (RFC 8291) and the request is
+// signed with the VAPID key pair from the Config table (RFC 8292), so any push service accepts it
+const PUSH_TTL_SECONDS = 10 * 60;
+const PUSH_RECORD_SIZE = 4096;
+const VAPID_JWT_TTL_SECONDS = 12 * 60 * 60;
+
+// Helper to load the VAPID key pair written by prisma/seed-vapid-keys.js; null until it has run
+async function getVapidKeys() {
+  const [publicKey, privateKey, subject] = await Promise.all([
+    getConfigValue('VAPID_PUBLIC_KEY'),
+    getConfigValue('VAPID_PRIVATE_KEY'),
+    getConfigValue('VAPID_SUBJECT')
+  ]);
+  if (!publicKey || !privateKey) return null;
+  return { publicKey, privateKey, subject: subject || 'mailto:admin@localhost' };
+}
+
+// Helper to build the VAPID Authorization header for one push service origin
+function createVapidAuthorization(endpoint, vapid) {
+  const rawPublicKey = Buffer.from(vapid.publicKey, 'base64url');
+  const key = createPrivateKey({
+    format: 'jwk',
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: rawPublicKey.subarray(1, 33).toString('base64url'),
+      y: rawPublicKey.subarray(33, 65).toString('base64url')
+    }
+  });
+  const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + VAPID_JWT_TTL_SECONDS,
+    sub: vapid.subject
+  })}`;
+  const signature = sign('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' });
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${vapid.publicKey}`;
+}
+
+// Helper to encrypt a push payload for one subscription as a single aes128gcm record
+function encryptPushPayload(subscription, payload) {
+  const userPublicKey = Buffer.from(subscription.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.auth, 'base64url');
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const salt = randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userPublicKey, serverPublicKey]);
+  const ikm = hkdfSync('sha256', ecdh.computeSecret(userPublicKey), authSecret, keyInfo, 32);
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, 'Content-Encoding: aes128gcm\0', 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, 'Content-Encoding: nonce\0', 12));
+
+  // 0x02 marks the last (and only) record
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const plaintext = Buffer.concat([Buffer.from(JSON.stringify(payload)), Buffer.from([2])]);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(PUSH_RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+// Helper to deliver one push message. Subscriptions the push service no longer knows are removed.
+async function sendPushNotification(subscription, payload, vapid) {
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Encoding': 'aes128gcm',
+      TTL: String(PUSH_TTL_SECONDS),
+      Urgency: 'high',
+      Authorization: createVapidAuthorization(subscription.endpoint, vapid)
+    },
+    body: encryptPushPayload(subscription, payload)
+  });
+
+  if (response.status === 404 || response.status === 410) {
+    console.log(`Push Debug: Removing expired subscription for user ${subscription.userId}`);
+    await prisma.pushSubscription.deleteMany({ where: { endpoint: subscription.endpoint } });
+    return;
+  }
+  if (!response.ok) {
+    throw new Error(`Push service answered ${response.status} for user ${subscription.userId}`);
+  }
+}
+
+// Alert modes a device may pick per queue, as in UserQueue
+const PUSH_ALERT_MODES = ['all', 'threshold', 'called', 'mute'];
+// Largest "people ahead" threshold UserQueue offers
+const PUSH_MAX_PEOPLE_AHEAD = 10;
+// Same as DEFAULT_QUEUE_ALERT_PREFERENCE on the client, for queues a device never set a preference for
+const DEFAULT_PUSH_ALERT_PREFERENCE = { mode: 'threshold', peopleAhead: 2 };
+
+// Helper to apply a device's alert preference for one queue. Messages with `peopleAhead` are
+// position alerts, sent only to devices whose threshold the ticket has just reached; the rest
+// are calls, which every device gets unless the queue is muted.
+function wantsPush(subscription, { stationId, peopleAhead }) {
+  const preference = subscription.alertPreferences?.[stationId] ?? DEFAULT_PUSH_ALERT_PREFERENCE;
+  if (preference.mode === 'mute') return false;
+  if (peopleAhead === undefined) return true;
+  return preference.mode !== 'called' && preference.peopleAhead === peopleAhead;
+}
+
+// Helper to push messages ({ userId, payload, peopleAhead? }) to every device their users subscribed,
+// as far as each device's alert preferences allow. Use it next to publishToChannel, inside
+// publishToChannelsParallel, so a failing push service cannot fail the request.
+async function pushToUsers(messages) {
+  if (messages.length === 0) return 0;
+  const vapid = await getVapidKeys();
+  if (!vapid) return 0;
+
+  const subscriptions = await prisma.pushSubscription.findMany({
+    where: { userId: { in: [...new Set(messages.map(message => message.userId))] } }
+  });
+  const deliveries = messages.flatMap(({ userId, payload, peopleAhead }) => subscriptions
+    .filter(sub => sub.userId === userId && wantsPush(sub, { stationId: payload.stationId, peopleAhead }))
+    .map(sub => sendPushNotification(sub, payload, vapid)));
+  const results = await Promise.allSettled(deliveries);
+  results.forEach(result => {
+    if (result.status === 'rejected') console.error('Push Debug: Delivery failed:', result.reason);
+  });
+  return results.filter(result => result.status === 'fulfilled').length;
+}
+
+// Helper to derive an ETag from whatever identifies a version of a response
+const makeEtag = (version) => `"${createHash('sha1').update(JSON.stringify(version)).digest('base64url')}"`;
+
+// Helper for conditional GETs: tags the response and answers 304 when the client already holds
+// this version. Callers check it before their expensive queries and stop when it returns true.
+function isNotModified(req, res, etag) {
+  res.set('ETag', etag);
+  // Browsers must revalidate every time instead of reusing a stale copy
+  res.set('Cache-Control', 'no-cache');
+  const ifNoneMatch = req.get('If-None-Match');
+  if (!ifNoneMatch) return false;
+  const tags = ifNoneMatch.split(',').map(tag => tag.trim().replace(/^W\//, ''));
+  if (!tags.includes(etag) && !tags.includes('*')) return false;
+  res.status(304).end();
+  return true;
+}
+
+// Helper to read the JSON body, which Netlify sometimes hands over as a raw Buffer
+function parseRequestBody(req) {
+  if (typeof req.body === 'object' && Buffer.isBuffer(req.body)) {
+    return JSON.parse(req.body.toString('utf8'));
+  }
+  return req.body ?? {};
+}
+
+// Helper to append a ticket event to the ledger. Analytics must never block the queue,
+// so a failed write is logged and swallowed.
+async function recordQueueEvent(stationId, type, { userId, position }) {
+  try {
+    await prisma.queueEvent.create({ data: { stationId, userId, position, type } });
+  } catch (err) {
+    console.error(`Ledger Debug: Failed to record ${type} for # ${position} at station ${stationId}:`, err);
+  }
+}
+
+// Helper to get the tickets still active at a station, in queue order
+async function getActiveStationQueue(stationId) {
+  return prisma.queue.findMany({
+    where: { stationId, status: { in: ACTIVE_TICKET_STATUSES } },
+    orderBy: { lineOrder: 'asc' },
+    select: { userId: true, position: true, lineOrder: true, status: true, acknowledgedAt: true }
+  });
+}
+
+// Helper to stamp a change at a station with its next sequence number. Take it after the change
+// and before reading the queue, so message N always includes every change up to N. Clients use
+// it to spot missed or out-of-order messages; a failure only costs them a resync, so it is logged and swallowed.
+async function nextStationSeq(stationId) {
+  try {
+    const station = await prisma.station.update({
+      where: { id: stationId },
+      data: { eventSeq: { increment: 1 } },
+      select: { eventSeq: true }
+    });
+    return station.eventSeq;
+  } catch (err) {
+    console.error(`Sequence Debug: Failed to advance sequence for station ${stationId}:`, err);
+    return null;
+  }
+}
+
+// Shape of the station queue as published on CHANNEL_NAMES.QUEUE
+const toStationQueuePayload = (queue, seq) => ({
+  seq: seq ?? null,
+  queue: queue.map(r => ({
+    user_id: r.userId,
+    position: r.position,
+    status: r.status,
+    acknowledged: Boolean(r.acknowledgedAt)
+  }))
+});
+
+// Anonymised copy of the station queue for the public board channel: ticket numbers only
+const toBoardQueuePayload = (queue, seq) => ({
+  seq: seq ?? null,
+  queue: queue.map(({ position, status }) => ({ position, status }))
+});
+
+// Station fields anyone may see. The managerId authorizes managing a station, so it never leaves
+// the admin routes, and counters that change with every ticket are of no use to clients.
+const PUBLIC_STATION_FIELDS = [
+  'id', 'name', 'callGraceSeconds', 'missedCallAction', 'requeueOffset', 'maxRecalls',
+  'announcementTemplate', 'announcementLanguage', 'announcementVoice'
+];
+const PUBLIC_STATION_SELECT = Object.fromEntries(PUBLIC_STATION_FIELDS.map(field => [field, true]));
+
+const toPublicStation = (station) =>
+  Object.fromEntries(PUBLIC_STATION_FIELDS.map(field => [field, station[field]]));
+
+// Weight of the newest service time in a station's rolling average
+const SERVICE_TIME_SMOOTHING = 0.2;
+// Service times above this are treated as abandoned counters, not real service
+const MAX_SERVICE_SECONDS = 60 * 60;
+
+// Helper to fold a completed ticket's call-to-completion time into the station average
+function getNextAverageServiceSeconds(currentAverage, calledAt, finishedAt) {
+  const serviceSeconds = (finishedAt.getTime() - calledAt.getTime()) / 1000;
+  if (serviceSeconds <= 0 || serviceSeconds > MAX_SERVICE_SECONDS) return currentAverage ?? null;
+  if (currentAverage === null || currentAverage === undefined) return serviceSeconds;
+  return currentAverage + SERVICE_TIME_SMOOTHING * (serviceSeconds - currentAverage);
+}
+
+// Helper to count the waiting tickets ahead of each of a user's tickets, for all their stations
+// in one query. Uses the (stationId, lineOrder) index rather than loading every station's line.
+async function countTicketsAhead(userId) {
+  const rows = await prisma.$queryRaw`
+    SELECT q."stationId", COUNT(ahead."userId")::int AS "ahead"
+    FROM "Queue" q
+    LEFT JOIN "Queue" ahead
+      ON ahead."stationId" = q."stationId"
+      AND ahead."status" = ${TICKET_STATUS.WAITING}
+      AND ahead."lineOrder" < q."lineOrder"
+    WHERE q."userId" = ${userId}
+    GROUP BY q."stationId"
+  `;
+  return new Map(rows.map(row => [row.stationId, Number(row.ahead)]));
+}
+
+// Helper to load a user's active tickets with the station details their queue list needs
+async function findUserTickets(userId) {
+  return prisma.queue.findMany({
+    where: { userId, status: { in: ACTIVE_TICKET_STATUSES } },
+    include: { station: { select: { name: true, callGraceSeconds: true, avgServiceSeconds: true, eventSeq: true } } },
+    orderBy: { position: 'asc' }
+  });
+}
+
+// Helper to build a user's personal queue list, as returned by /my-queues.
+// Pass the tickets when they have already been loaded.
+async function getUserQueueData(userId, tickets) {
+  const [userQueues, aheadByStation] = await Promise.all([
+    tickets ?? findUserTickets(userId),
+    countTicketsAhead(userId)
+  ]);
+
+  return userQueues.map((q) => {
+    // Called and serving tickets are no longer "in line"
+    if (q.status === TICKET_STATUS.CALLED || q.status === TICKET_STATUS.SERVING) {
+      const acknowledged = Boolean(q.acknowledgedAt);
+      // Let the user know how long they have to acknowledge the call
+      const callExpiresAt = q.status === TICKET_STATUS.CALLED && !acknowledged && q.calledAt && q.station.callGraceSeconds
+        ? new Date(q.calledAt.getTime() + q.station.callGraceSeconds * 1000).toISOString()
+        : undefined;
+
+      return {
+        stationId: q.stationId,
+        stationName: q.station.name,
+        queueNumber: q.position,
+        actualPosition: 0,
+        status: q.status,
+        acknowledged,
+        callExpiresAt,
+        seq: q.station.eventSeq
+      };
+    }
+
+    // The user's actual position in line (1st, 2nd, 3rd, etc.)
+    const actualPosition = (aheadByStation.get(q.stationId) ?? 0) + 1;
+    // Everyone ahead, including this user, takes about one average service time
+    const estimatedWaitSeconds = q.station.avgServiceSeconds
+      ? Math.round(actualPosition * q.station.avgServiceSeconds)
+      : undefined;
+
+    return {
+      stationId: q.stationId,
+      stationName: q.station.name,
+      queueNumber: q.position,
+      actualPosition: actualPosition,
+      status: q.status,
+      estimatedWaitSeconds,
+      seq: q.station.eventSeq
+    };
+  });
+}
+
+// Helper to prepare MY_QUEUES updates for users whose own tickets changed. Everyone else
+// works out their new place in line from the station's board channel.
+async function buildMyQueuesPublishes(userIds) {
+  const publishOperations = [];
+  for (const userId of userIds) {
+    const userQueueData = await getUserQueueData(userId);
+    publishOperations.push(
+      publishToChannel(
+        CHANNEL_NAMES.MY_QUEUES(userId),
+        EVENT_NAMES.QUEUE_UPDATE,
+        userQueueData
+      )
+    );
+  }
+  return publishOperations;
+}
+
+// Push payloads; the service worker shows them as system notifications
+const toCalledPush = (stationId, stationName, queueNumber) => ({
+  title: "It's your turn",
+  body: `Please proceed to ${stationName} (# ${queueNumber})`,
+  tag: `queue:${stationId}`,
+  stationId,
+  urgent: true
+});
+
+const toAlmostTherePush = (stationId, stationName, queueNumber, peopleAhead) => ({
+  title: 'Almost your turn',
+  body: peopleAhead === 0
+    ? `You are next in line at ${stationName} (# ${queueNumber})`
+    : `You are number ${peopleAhead + 1} in line at ${stationName} (# ${queueNumber})`,
+  tag: `queue:${stationId}`,
+  stationId,
+  urgent: false
+});
+
+// Helper to find the waiting tickets that moved up because the ticket at `removedLineOrder` left
+// the line. Everyone behind it moves up by one, so a ticket now `peopleAhead` from the front has
+// just reached that threshold; tickets further back than any threshold are left out.
+function findTicketsMovingUp(queue, removedLineOrder) {
+  const waiting = queue.filter(t => t.status === TICKET_STATUS.WAITING);
+  const removedIndex = waiting.filter(t => t.lineOrder < removedLineOrder).length;
+  return waiting
+    .slice(removedIndex, PUSH_MAX_PEOPLE_AHEAD + 1)
+    .map((ticket, i) => ({ userId: ticket.userId, position: ticket.position, peopleAhead: removedIndex + i }));
+}
+
+// Push messages for the tickets findTicketsMovingUp returned
+const toAlmostThereMessages = (movedUp, stationId, stationName) => movedUp.map(({ userId, position, peopleAhead }) => ({
+  userId,
+  peopleAhead,
+  payload: toAlmostTherePush(stationId, stationName, position, peopleAhead)
+}));
+
+// Helper to work out the lineOrder that places a ticket behind `offset` waiting tickets
+async function getRequeueLineOrder(stationId, offset) {
+  const waiting = await prisma.queue.findMany({
+    where: { stationId, status: TICKET_STATUS.WAITING },
+    orderBy: { lineOrder: 'asc' },
+    select: { lineOrder: true },
+    take: offset + 1
+  });
+
+  // Nobody is waiting, so the ticket goes straight back to the front
+  if (waiting.length === 0) return null;
+
+  const index = Math.min(offset, waiting.length);
+  if (index <= 0) return waiting[0].lineOrder - 1;
+  const before = waiting[index - 1].lineOrder;
+  const after = waiting[index]?.lineOrder;
+  return after === undefined ? before + 1 : (before + after) / 2;
+}
+
+// Apply the station's missed-call policy to called tickets nobody acknowledged in time.
+// Runs whenever the station's queue is read or popped, so the manager screen drives it.
+async function processMissedCalls(station) {
+  if (!station.callGraceSeconds) return 0;
+
+  const cutoff = new Date(Date.now() - station.callGraceSeconds * 1000);
+  const overdue = await prisma.queue.findMany({
+    where: {
+      stationId: station.id,
+      status: TICKET_STATUS.CALLED,
+      acknowledgedAt: null,
+      calledAt: { lt: cutoff }
+    },
+    orderBy: { lineOrder: 'asc' },
+    select: { userId: true, position: true, recallCount: true }
+  });
+
+  if (overdue.length === 0) return 0;
+
+  const publishOperations = [];
+  let processed = 0;
+
+  for (const ticket of overdue) {
+    const requeue = station.missedCallAction === 'requeue' && ticket.recallCount < station.maxRecalls;
+    const overdueWhere = { stationId: station.id, userId: ticket.userId, status: TICKET_STATUS.CALLED, acknowledgedAt: null };
+    let updated;
+
+    if (requeue) {
+      const lineOrder = await getRequeueLineOrder(station.id, station.requeueOffset);
+      updated = await prisma.queue.updateMany({
+        where: overdueWhere,
+        data: {
+          status: TICKET_STATUS.WAITING,
+          calledAt: null,
+          recallCount: { increment: 1 },
+          ...(lineOrder === null ? {} : { lineOrder })
+        }
+      });
+    } else {
+      updated = await prisma.queue.updateMany({
+        where: overdueWhere,
+        data: { status: TICKET_STATUS.NO_SHOW, finishedAt: new Date() }
+      });
+    }
+
+    // Another request already handled this ticket
+    if (updated.count === 0) continue;
+    processed++;
+    await recordQueueEvent(station.id, requeue ? QUEUE_EVENT_TYPES.REQUEUED : QUEUE_EVENT_TYPES.NO_SHOW, ticket);
+
+    console.log(`Missed Call Debug: Ticket # ${ticket.position} at station ${station.id} ${requeue ? 'requeued' : 'marked no-show'}`);
+
+    publishOperations.push(
+      publishToChannel(
+        CHANNEL_NAMES.MY_QUEUES(ticket.userId),
+        EVENT_NAMES.TICKET_RECALL,
+        {
+          stationId: station.id,
+          stationName: station.name,
+          queueNumber: ticket.position,
+          action: requeue ? 'requeued' : TICKET_STATUS.NO_SHOW
+        }
+      )
+    );
+  }
+
+  if (processed === 0) return 0;
+
+  // Refresh the station and the owners of the missed tickets; the rest of the line follows the board
+  const seq = await nextStationSeq(station.id);
+  const queue = await getActiveStationQueue(station.id);
+  const affectedUserIds = new Set(overdue.map(t => t.userId));
+
+  publishOperations.push(
+    publishToChannel(
+      CHANNEL_NAMES.QUEUE(station.id),
+      EVENT_NAMES.QUEUE_UPDATE,
+      toStationQueuePayload(queue, seq)
+    ),
+    publishToChannel(
+      CHANNEL_NAMES.BOARD(station.id),
+      EVENT_NAMES.QUEUE_UPDATE,
+      toBoardQueuePayload(queue, seq)
+    ),
+    ...(await buildMyQueuesPublishes(affectedUserIds))
+  );
+
+  const publishResults = await publishToChannelsParallel(publishOperations);
+  console.log(`Published ${publishResults}/${publishOperations.length} real-time updates for missed calls`);
+
+  return processed;
+}
+
 const app = express();
 app.use(express.json());
-app.use(cors({ origin: true, credentials: true }));
+app.use(cors({
+  origin: true,
+  credentials: true,
+  exposedHeaders: ['Idempotency-Supported', 'Idempotent-Replayed', 'Retry-After', 'ETag'],
+}));
 
 // Logging middleware
 app.use((req, res, next) => {
@@ -172,6 +792,80 @@ app.use((req, res, next) => {
   next();
 });
 
+const IDEMPOTENT_REQUEST_METHODS = ['POST', 'PATCH', 'DELETE'];
+const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+const IDEMPOTENCY_RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Claims an idempotency key for this request. Returns null when the key is new,
+// otherwise the record left behind by the first request with that key.
+async function claimIdempotencyKey(key, method, path) {
+  try {
+    await prisma.idempotencyRecord.create({ data: { key, method, path } });
+    return null;
+  } catch (err) {
+    if (err.code !== 'P2002') throw err;
+  }
+  const existing = await prisma.idempotencyRecord.findUnique({ where: { key } });
+  if (existing && Date.now() - new Date(existing.createdAt).getTime() > IDEMPOTENCY_RECORD_TTL_MS) {
+    // Expired keys start over as if they were never seen
+    await prisma.idempotencyRecord.delete({ where: { key } });
+    return claimIdempotencyKey(key, method, path);
+  }
+  return existing;
+}
+
+// Replays the first result for a repeated Idempotency-Key so a retried join, pop or
+// leave is applied once. Every response advertises support so clients know a lost
+// response to a keyed request can be retried safely.
+app.use(async (req, res, next) => {
+  res.set('Idempotency-Supported', 'true');
+  const idempotencyKey = req.headers['idempotency-key'];
+  if (!idempotencyKey || !IDEMPOTENT_REQUEST_METHODS.includes(req.method)) {
+    return next();
+  }
+  if (idempotencyKey.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+    return res.status(400).json({ error: 'Invalid Idempotency-Key' });
+  }
+
+  // Scope keys per caller so one client can never replay another client's result
+  const key = `${req.userId ?? 'anonymous'}:${idempotencyKey}`;
+  let existing;
+  try {
+    existing = await claimIdempotencyKey(key, req.method, req.path);
+  } catch (err) {
+    console.error('Idempotency Debug: Failed to claim key, processing without it:', err);
+    return next();
+  }
+
+  if (existing) {
+    if (existing.method !== req.method || existing.path !== req.path) {
+      return res.status(422).json({ error: 'Idempotency-Key was already used for a different request' });
+    }
+    if (existing.statusCode === null || existing.statusCode === undefined) {
+      res.set('Retry-After', '1');
+      return res.status(409).json({ error: 'The original request is still being processed', reason: 'InProgress' });
+    }
+    console.log('Idempotency Debug: Replaying stored response for', req.method, req.path);
+    res.set('Idempotent-Replayed', 'true');
+    return res.status(existing.statusCode).json(existing.body ? JSON.parse(existing.body) : null);
+  }
+
+  // Store the first result before it is sent, so a retry racing the response sees it
+  const sendJson = res.json.bind(res);
+  res.json = (body) => {
+    const statusCode = res.statusCode;
+    // Server errors are not remembered so a retry with the same key runs again
+    const persist = statusCode >= 500
+      ? prisma.idempotencyRecord.delete({ where: { key } })
+      : prisma.idempotencyRecord.update({ where: { key }, data: { statusCode, body: JSON.stringify(body) } });
+    persist
+      .catch(err => console.error('Idempotency Debug: Failed to store response:', err))
+      .finally(() => sendJson(body));
+    return res;
+  };
+  next();
+});
+
 // Helper to get admin secret from Config table
 async function getAdminSecret() {
   return getConfigValue('ADMIN_SECRET');
@@ -211,11 +905,11 @@ app.post('/admin/stations', async (req, res) => {
       data: { id, name, managerId }
     });
 
-    // Publish station creation event
+    // Publish station creation event (the stations channel is public, so leave out the managerId)
     await publishToChannel(
       CHANNEL_NAMES.STATIONS,
       EVENT_NAMES.STATION_CREATE,
-      station
+      toPublicStation(station)
     );
 
     res.json(station);
@@ -237,12 +931,7 @@ app.delete('/admin/stations/:id', async (req, res) => {
     const deletedQueue = await prisma.queue.deleteMany({ where: { stationId: id } });
     console.log(`Deleted ${deletedQueue.count} queue entries`);
 
-    // Delete the lastPosition config entry for this station
-    const positionKey = `lastPosition:${id}`;
-    const deletedConfig = await prisma.config.deleteMany({ where: { key: positionKey } });
-    console.log(`Deleted ${deletedConfig.count} config entries with key: ${positionKey}`);
-
-    // Delete the station itself
+    // Delete the station itself (its ticket counter goes with it)
     await prisma.station.delete({ where: { id } });
     console.log(`Deleted station ${id}`);
 
@@ -260,132 +949,351 @@ app.delete('/admin/stations/:id', async (req, res) => {
 });
 
 
+// Allowed ranges for the per-station missed-call settings
+const STATION_SETTING_LIMITS = {
+  callGraceSeconds: { min: 0, max: 3600 },
+  requeueOffset: { min: 1, max: 50 },
+  maxRecalls: { min: 0, max: 10 },
+};
+const MISSED_CALL_ACTIONS = ['requeue', TICKET_STATUS.NO_SHOW];
+const ANNOUNCEMENT_TEMPLATE_MAX_LENGTH = 200;
+const ANNOUNCEMENT_VOICE_MAX_LENGTH = 100;
+// BCP 47 language tag as understood by the Web Speech API, e.g. "en", "en-US", "zh-Hant-TW"
+const LANGUAGE_TAG_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/;
+
+// Admin: update station missed-call settings
+app.patch('/admin/stations/:id', async (req, res) => {
+  const secret = req.headers['x-admin-secret'];
+  const dbSecret = await getAdminSecret();
+  if (secret !== dbSecret) return res.status(403).json({ error: 'Forbidden' });
+  const { id } = req.params;
 
-// Get Ably API key for client-side initialization
-let ablyKeyCache = { value: null, expires: 0 };
-
-app.get('/config/ably-key', async (req, res) => {
+  let body;
   try {
-    const keyName = 'VITE_ABLY_API_KEY';
-    const now = Date.now();
-    // Cache for 5 minutes
-    if (ablyKeyCache.value && ablyKeyCache.expires > now) {
-      return res.json({ key: ablyKeyCache.value });
-    }
+    body = parseRequestBody(req);
+  } catch (e) {
+    return res.status(400).json({ error: 'Invalid request body format', details: e.message });
+  }
 
-    const apiKey = await getConfigValue(keyName);
-    if (!apiKey) {
-      console.error(`${keyName} not found in database. Check your configuration.`);
-      return res.status(404).json({ error: `Ably API key (${keyName}) not found` });
+  const data = {};
+  for (const [field, { min, max }] of Object.entries(STATION_SETTING_LIMITS)) {
+    if (body[field] === undefined) continue;
+    const value = body[field];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return res.status(400).json({ error: `${field} must be a whole number between ${min} and ${max}` });
     }
-
-    // Only return the key value, not the entire key
-    const keyParts = apiKey.split(':');
-    if (keyParts.length === 2) {
-      // Return a partially masked key for logging
-      console.log(`Serving ${keyName}: ${keyParts[0].substring(0, 4)}...`);
-    } else {
-      console.log(`Serving ${keyName} (format unknown)`);
+    data[field] = value;
+  }
+  if (body.missedCallAction !== undefined) {
+    if (!MISSED_CALL_ACTIONS.includes(body.missedCallAction)) {
+      return res.status(400).json({ error: `missedCallAction must be one of: ${MISSED_CALL_ACTIONS.join(', ')}` });
+    }
+    data.missedCallAction = body.missedCallAction;
+  }
+  if (body.announcementTemplate !== undefined) {
+    const template = typeof body.announcementTemplate === 'string' ? body.announcementTemplate.trim() : '';
+    if (!template || template.length > ANNOUNCEMENT_TEMPLATE_MAX_LENGTH) {
+      return res.status(400).json({ error: `announcementTemplate must be 1 to ${ANNOUNCEMENT_TEMPLATE_MAX_LENGTH} characters` });
     }
+    data.announcementTemplate = template;
+  }
+  if (body.announcementLanguage !== undefined) {
+    if (typeof body.announcementLanguage !== 'string' || !LANGUAGE_TAG_PATTERN.test(body.announcementLanguage)) {
+      return res.status(400).json({ error: 'announcementLanguage must be a language tag such as en-US' });
+    }
+    data.announcementLanguage = body.announcementLanguage;
+  }
+  if (body.announcementVoice !== undefined) {
+    // An empty voice lets each display pick its default voice for the language
+    const voice = body.announcementVoice === null ? '' : body.announcementVoice;
+    if (typeof voice !== 'string' || voice.length > ANNOUNCEMENT_VOICE_MAX_LENGTH) {
+      return res.status(400).json({ error: `announcementVoice must be at most ${ANNOUNCEMENT_VOICE_MAX_LENGTH} characters` });
+    }
+    data.announcementVoice = voice.trim() || null;
+  }
+  if (Object.keys(data).length === 0) {
+    return res.status(400).json({ error: 'No settings to update' });
+  }
+
+  try {
+    const station = await prisma.station.update({ where: { id }, data });
 
-    ablyKeyCache.value = apiKey;
-    ablyKeyCache.expires = now + 5 * 60 * 1000; // 5 minutes
+    // Publish station update event (the stations channel is public, so leave out the managerId)
+    await publishToChannelsParallel([
+      publishToChannel(
+        CHANNEL_NAMES.STATIONS,
+        EVENT_NAMES.STATION_UPDATE,
+        { id: station.id, name: station.name, ...data }
+      )
+    ]);
 
-    res.json({ key: apiKey });
+    res.json(station);
   } catch (err) {
-    console.error('Error retrieving Ably API key:', err);
-    res.status(500).json({ error: 'Error retrieving configuration' });
+    if (err.code === 'P2025') return res.status(404).json({ error: 'Station not found' });
+    res.status(500).json({ error: 'DB error' });
   }
 });
 
-// List stations
-app.get('/stations', async (req, res) => {
-  const adminSecret = req.headers['x-admin-secret'];
-  if (adminSecret !== undefined) {
-    const dbSecret = await getAdminSecret();
-    if (adminSecret !== dbSecret) return res.status(403).json({ error: 'Forbidden' });
+const ANALYTICS_MAX_DAYS = 90;
+// getTimezoneOffset() values range from UTC-12 to UTC+14
+const ANALYTICS_MAX_TZ_OFFSET_MINUTES = 14 * 60;
+
+// Helper to count the ledger's events per station and type
+async function countQueueEvents(since) {
+  const rows = await prisma.queueEvent.groupBy({
+    by: ['stationId', 'type'],
+    where: { createdAt: { gte: since } },
+    _count: { _all: true }
+  });
+  const counts = new Map();
+  for (const row of rows) {
+    const stationCounts = counts.get(row.stationId) ?? {};
+    stationCounts[row.type] = row._count._all;
+    counts.set(row.stationId, stationCounts);
+  }
+  return counts;
+}
+
+// Helper to count arrivals per station by the admin's local hour of day
+async function countHourlyArrivals(since, tzOffsetMinutes) {
+  const rows = await prisma.$queryRaw`
+    SELECT "stationId",
+      EXTRACT(HOUR FROM date_trunc('hour', "createdAt" - make_interval(mins => ${tzOffsetMinutes})))::int AS "hour",
+      COUNT(*)::int AS "arrivals"
+    FROM "QueueEvent"
+    WHERE "type" = ${QUEUE_EVENT_TYPES.JOINED} AND "createdAt" >= ${since}
+    GROUP BY 1, 2
+  `;
+  const arrivals = new Map();
+  for (const row of rows) {
+    const hourly = arrivals.get(row.stationId) ?? new Array(24).fill(0);
+    hourly[Number(row.hour)] = Number(row.arrivals);
+    arrivals.set(row.stationId, hourly);
   }
+  return arrivals;
+}
+
+// Helper to average wait and service times per station. Events are matched to tickets by station
+// and ticket number, which is never reused. Wait runs from joining until the first call; a requeued
+// ticket's service starts at its last call.
+async function averageTicketTimes(since) {
+  const rows = await prisma.$queryRaw`
+    WITH tickets AS (
+      SELECT "stationId",
+        MIN("createdAt") FILTER (WHERE "type" = ${QUEUE_EVENT_TYPES.JOINED}) AS "joinedAt",
+        MIN("createdAt") FILTER (WHERE "type" = ${QUEUE_EVENT_TYPES.CALLED}) AS "firstCalledAt",
+        MAX("createdAt") FILTER (WHERE "type" = ${QUEUE_EVENT_TYPES.CALLED}) AS "lastCalledAt",
+        MAX("createdAt") FILTER (WHERE "type" = ${QUEUE_EVENT_TYPES.COMPLETED}) AS "completedAt"
+      FROM "QueueEvent"
+      WHERE "createdAt" >= ${since}
+      GROUP BY "stationId", "position"
+    )
+    SELECT "stationId",
+      ROUND(AVG(EXTRACT(EPOCH FROM "firstCalledAt" - "joinedAt")) FILTER (WHERE "firstCalledAt" >= "joinedAt"))::int AS "avgWaitSeconds",
+      ROUND(AVG(EXTRACT(EPOCH FROM "completedAt" - "lastCalledAt")) FILTER (WHERE "completedAt" >= "lastCalledAt"))::int AS "avgServiceSeconds"
+    FROM tickets
+    GROUP BY "stationId"
+  `;
+  return new Map(rows.map(row => [row.stationId, row]));
+}
+
+// Admin: per-station analytics from the event ledger
+app.get('/admin/analytics', async (req, res) => {
+  const secret = req.headers['x-admin-secret'];
+  const dbSecret = await getAdminSecret();
+  if (secret !== dbSecret) return res.status(403).json({ error: 'Forbidden' });
+
+  const days = req.query.days === undefined ? 7 : Number(req.query.days);
+  if (!Number.isInteger(days) || days < 1 || days > ANALYTICS_MAX_DAYS) {
+    return res.status(400).json({ error: `days must be a whole number between 1 and ${ANALYTICS_MAX_DAYS}` });
+  }
+  const tzOffset = req.query.tzOffset === undefined ? 0 : Number(req.query.tzOffset);
+  if (!Number.isInteger(tzOffset) || Math.abs(tzOffset) > ANALYTICS_MAX_TZ_OFFSET_MINUTES) {
+    return res.status(400).json({ error: 'Invalid tzOffset' });
+  }
+
   try {
-    const stations = await prisma.station.findMany();
-    res.json(stations);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    // Aggregated in the database so the ledger's rows never have to be loaded
+    const [stations, counts, arrivals, times] = await Promise.all([
+      prisma.station.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } }),
+      countQueueEvents(since),
+      countHourlyArrivals(since, tzOffset),
+      averageTicketTimes(since)
+    ]);
+
+    res.json({
+      since: since.toISOString(),
+      days,
+      stations: stations.map(station => {
+        const stationCounts = counts.get(station.id) ?? {};
+        const stationTimes = times.get(station.id);
+        return {
+          stationId: station.id,
+          stationName: station.name,
+          joinedCount: stationCounts[QUEUE_EVENT_TYPES.JOINED] ?? 0,
+          servedCount: stationCounts[QUEUE_EVENT_TYPES.COMPLETED] ?? 0,
+          noShowCount: stationCounts[QUEUE_EVENT_TYPES.NO_SHOW] ?? 0,
+          leftCount: stationCounts[QUEUE_EVENT_TYPES.LEFT] ?? 0,
+          hourlyArrivals: arrivals.get(station.id) ?? new Array(24).fill(0),
+          avgWaitSeconds: stationTimes?.avgWaitSeconds ?? null,
+          avgServiceSeconds: stationTimes?.avgServiceSeconds ?? null
+        };
+      })
+    });
   } catch (err) {
+    console.error('Error in analytics:', err);
     res.status(500).json({ error: 'DB error' });
   }
 });
 
-// User: join queue
-app.post('/queue/:stationId', async (req, res) => {
-  const { stationId } = req.params;
-  const userId = req.userId;
-  console.log(`Join Queue Debug: userId from request: ${userId}, stationId: ${stationId}`);
+const MAX_MANAGED_STATIONS_PER_TOKEN = 20;
 
-  if (!userId) {
-    return res.status(400).json({ error: 'User ID required' });
+// Channels a client may subscribe to: the station list and the anonymised boards for everyone,
+// its own my-queues channel, and queue:<id> (whose payloads carry user ids) only for verified managers
+function buildRealtimeCapability(userId, managedStationIds) {
+  const capability = {
+    [CHANNEL_NAMES.STATIONS]: ['subscribe'],
+    [CHANNEL_NAMES.BOARD('*')]: ['subscribe'],
+  };
+  if (userId) {
+    capability[CHANNEL_NAMES.MY_QUEUES(userId)] = ['subscribe'];
+  }
+  for (const stationId of managedStationIds) {
+    capability[CHANNEL_NAMES.QUEUE(stationId)] = ['subscribe'];
   }
+  return capability;
+}
 
+// Issue realtime credentials for the caller: an Ably token request, or a signed stream token
+// when running on SSE. Managers list the stations they manage as
+// { managers: [{ stationId, managerId }] } to be granted those station channels.
+app.post('/realtime/token', async (req, res) => {
+  let body;
   try {
-    const station = await prisma.station.findUnique({
-      where: { id: stationId },
-      select: { id: true } // Only fetch id for existence check
-    });
-    if (!station) return res.status(404).json({ error: 'Station not found' });
+    body = parseRequestBody(req);
+  } catch (e) {
+    return res.status(400).json({ error: 'Invalid request body format', details: e.message });
+  }
+
+  const claims = (Array.isArray(body.managers) ? body.managers : [])
+    .filter(m => m && typeof m.stationId === 'string' && typeof m.managerId === 'string')
+    .slice(0, MAX_MANAGED_STATIONS_PER_TOKEN);
+
+  try {
+    let managedStationIds = [];
+    if (claims.length > 0) {
+      const stations = await prisma.station.findMany({
+        where: { id: { in: claims.map(c => c.stationId) } },
+        select: { id: true, managerId: true }
+      });
+      // Unverified claims are dropped silently; the client still gets its public channels
+      managedStationIds = stations
+        .filter(station => claims.some(c => c.stationId === station.id && c.managerId === station.managerId))
+        .map(station => station.id);
+    }
+
+    const token = await realtimeTransport.issueToken({
+      clientId: req.userId || undefined,
+      capability: buildRealtimeCapability(req.userId, managedStationIds),
+    });
+    if (!token) {
+      return res.status(503).json({ error: 'Real-time service not configured' });
+    }
+    console.log(`Realtime Debug: Issued token for ${req.userId ?? 'anonymous'} managing ${managedStationIds.length} station(s)`);
+
+    res.json(token);
+  } catch (err) {
+    console.error('Error issuing realtime token:', err);
+    res.status(500).json({ error: 'Error issuing real-time token' });
+  }
+});
+
+// Server-Sent Events stream for the self-hosted transport
+app.get('/realtime/events', (req, res) => {
+  if (realtimeTransport !== sseTransport) {
+    return res.status(404).json({ error: 'Server-Sent Events transport is not enabled' });
+  }
+  sseTransport.stream(req, res);
+});
+
+// List stations
+app.get('/stations', async (req, res) => {
+  const adminSecret = req.headers['x-admin-secret'];
+  if (adminSecret !== undefined) {
+    const dbSecret = await getAdminSecret();
+    if (adminSecret !== dbSecret) return res.status(403).json({ error: 'Forbidden' });
+  }
+  // Only the admin panel needs the manager ids; everyone else gets the public fields
+  const isAdmin = adminSecret !== undefined;
+  try {
+    const rows = await prisma.station.findMany({
+      select: { ...PUBLIC_STATION_SELECT, managerId: isAdmin }
+    });
+    const stations = rows.map(station => (isAdmin ? { ...toPublicStation(station), managerId: station.managerId } : toPublicStation(station)));
+    // There is no cheap version for the list, but a 304 still saves the transfer and the client's re-render.
+    // Counters such as eventSeq are left out, so joins and calls elsewhere don't change the tag.
+    if (isNotModified(req, res, makeEtag(stations))) return;
+    res.json(stations);
+  } catch (err) {
+    res.status(500).json({ error: 'DB error' });
+  }
+});
+
+// User: join queue
+app.post('/queue/:stationId', async (req, res) => {
+  const { stationId } = req.params;
+  const userId = req.userId;
+  console.log(`Join Queue Debug: userId from request: ${userId}, stationId: ${stationId}`);
+
+  if (!userId) {
+    return res.status(400).json({ error: 'User ID required' });
+  }
+
+  try {
+    const station = await prisma.station.findUnique({
+      where: { id: stationId },
+      select: { id: true } // Only fetch id for existence check
+    });
+    if (!station) return res.status(404).json({ error: 'Station not found' });
 
     const existing = await prisma.queue.findUnique({
       where: { stationId_userId: { stationId, userId } },
-      select: { position: true } // Only fetch position
+      select: { position: true, status: true } // Only fetch position and status
     });
     let position;
 
-    if (existing) {
+    if (existing && ACTIVE_TICKET_STATUSES.includes(existing.status)) {
       position = existing.position;
     } else {
+      // A finished ticket (completed or no-show) makes way for a fresh one
+      if (existing) {
+        await prisma.queue.delete({ where: { stationId_userId: { stationId, userId } } });
+      }
       // Get a new, never-reused position for this user
       position = await getNextPositionForStation(stationId);
-      await prisma.queue.create({ data: { stationId, userId, position } });
+      await prisma.queue.create({ data: { stationId, userId, position, lineOrder: position } });
+      await recordQueueEvent(stationId, QUEUE_EVENT_TYPES.JOINED, { userId, position });
     }
 
     // Get the full queue after update (only needed fields)
-    const queue = await prisma.queue.findMany({
-      where: { stationId },
-      orderBy: { position: 'asc' },
-      select: { userId: true, position: true }
-    });
-
-    // Also update the user's personal queue (only needed fields)
-    const userQueues = await prisma.queue.findMany({
-      where: { userId },
-      include: { station: { select: { name: true } } },
-      orderBy: { position: 'asc' }
-    });
-
-    const userQueueData = await Promise.all(userQueues.map(async (q) => {
-      // Get all users in this station's queue to calculate actual position
-      const stationQueue = await prisma.queue.findMany({
-        where: { stationId: q.stationId },
-        orderBy: { position: 'asc' },
-        select: { userId: true, position: true }
-      });
+    const seq = await nextStationSeq(stationId);
+    const queue = await getActiveStationQueue(stationId);
 
-      // Find this user's actual position in line (1st, 2nd, 3rd, etc.)
-      const userIndex = stationQueue.findIndex(sq => sq.userId === userId);
-      const actualPosition = userIndex === -1 ? 0 : userIndex + 1;
-
-      console.log(`Join Queue Debug: User ${userId} in station ${q.stationId} - position ${q.position}, actual position ${actualPosition}`);
-
-      return {
-        stationId: q.stationId,
-        stationName: q.station.name,
-        queueNumber: q.position,
-        actualPosition: actualPosition
-      };
-    }));
+    // Also update the user's personal queue
+    const userQueueData = await getUserQueueData(userId);
 
     // Parallelize Ably publishing with error isolation
     const publishResults = await publishToChannelsParallel([
       publishToChannel(
         CHANNEL_NAMES.QUEUE(stationId),
         EVENT_NAMES.QUEUE_UPDATE,
-        { queue: queue.map(r => ({ user_id: r.userId, position: r.position })) }
+        toStationQueuePayload(queue, seq)
+      ),
+      publishToChannel(
+        CHANNEL_NAMES.BOARD(stationId),
+        EVENT_NAMES.QUEUE_UPDATE,
+        toBoardQueuePayload(queue, seq)
       ),
       publishToChannel(
         CHANNEL_NAMES.MY_QUEUES(userId),
@@ -394,7 +1302,7 @@ app.post('/queue/:stationId', async (req, res) => {
       )
     ]);
 
-    console.log(`Published ${publishResults}/2 real-time updates for queue join`);
+    console.log(`Published ${publishResults}/3 real-time updates for queue join`);
 
     res.json({ queueNumber: position });
   } catch (err) {
@@ -410,30 +1318,54 @@ app.get('/queue/:stationId', async (req, res) => {
   try {
     const station = await prisma.station.findUnique({ where: { id: stationId } });
     if (!station || station.managerId !== managerId) return res.status(403).json({ error: 'Forbidden' });
-    const queue = await prisma.queue.findMany({
-      where: { stationId },
-      orderBy: { position: 'asc' }
+    const processed = await processMissedCalls(station);
+    // Every change at the station advances its sequence, so the sequence is the version. Settling
+    // missed calls advanced it past the value read above, so that response goes out untagged.
+    if (processed === 0 && isNotModified(req, res, makeEtag(['queue', stationId, station.eventSeq]))) return;
+    const queue = await getActiveStationQueue(stationId);
+    // The sequence was read before the queue, so it never claims more than the snapshot holds
+    res.json(toStationQueuePayload(queue, station.eventSeq));
+  } catch (err) {
+    res.status(500).json({ error: 'DB error' });
+  }
+});
+
+// Public: the station's line for lobby displays, without user ids or the managerId
+app.get('/queue/:stationId/board', async (req, res) => {
+  const { stationId } = req.params;
+  try {
+    const station = await prisma.station.findUnique({
+      where: { id: stationId },
+      select: { name: true, eventSeq: true, announcementTemplate: true, announcementLanguage: true, announcementVoice: true }
+    });
+    if (!station) return res.status(404).json({ error: 'Station not found' });
+
+    const queue = await getActiveStationQueue(stationId);
+    res.json({
+      stationName: station.name,
+      announcement: {
+        template: station.announcementTemplate,
+        language: station.announcementLanguage,
+        voice: station.announcementVoice
+      },
+      ...toBoardQueuePayload(queue, station.eventSeq)
     });
-    res.json({ queue: queue.map(r => ({ user_id: r.userId, position: r.position })) });
   } catch (err) {
+    console.error('Error in board view:', err);
     res.status(500).json({ error: 'DB error' });
   }
 });
 
-// Person: pop queue
+// Person: call the next waiting ticket ("pop" the queue)
 app.post('/queue/:stationId/pop', async (req, res) => {
   const { stationId } = req.params;
-  let managerId = req.body.managerId;
+  let managerId;
 
-  // Handle Buffer body (Netlify issue)
-  if (typeof req.body === 'object' && Buffer.isBuffer(req.body)) {
-    try {
-      const parsed = JSON.parse(req.body.toString('utf8'));
-      managerId = parsed.managerId;
-    } catch (e) {
-      console.log('Pop Queue Debug: Failed to parse Buffer body', { error: e });
-      return res.status(400).json({ error: 'Invalid request body format', details: e.message });
-    }
+  try {
+    managerId = parseRequestBody(req).managerId;
+  } catch (e) {
+    console.log('Pop Queue Debug: Failed to parse Buffer body', { error: e });
+    return res.status(400).json({ error: 'Invalid request body format', details: e.message });
   }
 
   try {
@@ -444,172 +1376,651 @@ app.post('/queue/:stationId/pop', async (req, res) => {
     }
     if (station.managerId !== managerId) {
       console.log('Pop Queue Debug: ManagerId mismatch', { dbManagerId: station.managerId, incomingManagerId: managerId });
-      return res.status(403).json({ error: 'Forbidden', reason: 'ManagerId mismatch', dbManagerId: station.managerId, incomingManagerId: managerId });
+      return res.status(403).json({ error: 'Forbidden', reason: 'ManagerId mismatch', incomingManagerId: managerId });
     }
+
+    // Settle overdue calls first so a requeued ticket can be called again in order
+    await processMissedCalls(station);
+
     const first = await prisma.queue.findFirst({
-      where: { stationId },
-      orderBy: { position: 'asc' }
+      where: { stationId, status: TICKET_STATUS.WAITING },
+      orderBy: { lineOrder: 'asc' }
     });
 
     if (!first) return res.json({ popped: null });
 
     const poppedUserId = first.userId;
-    console.log(`Pop Queue Debug: Popping user ${poppedUserId} from station ${stationId}`);
+    console.log(`Pop Queue Debug: Calling user ${poppedUserId} (# ${first.position}) at station ${stationId}`);
 
-    await prisma.queue.delete({ where: { stationId_userId: { stationId, userId: poppedUserId } } });
-
-    // Get updated queue
-    // Get updated queue (only needed fields)
-    const queue = await prisma.queue.findMany({
-      where: { stationId },
-      orderBy: { position: 'asc' },
-      select: { userId: true, position: true }
-    });
-
-    // Update the popped user's personal queue (only needed fields)
-    const userQueues = await prisma.queue.findMany({
-      where: { userId: poppedUserId },
-      include: { station: { select: { name: true } } },
-      orderBy: { position: 'asc' }
+    // Claim the ticket with a conditional update. When two counters race for the same
+    // front ticket, the row lock makes the second update re-check the status and match nothing.
+    const claimed = await prisma.queue.updateMany({
+      where: { stationId, userId: poppedUserId, status: TICKET_STATUS.WAITING },
+      data: { status: TICKET_STATUS.CALLED, calledAt: new Date() }
     });
 
-    const userQueueData = await Promise.all(userQueues.map(async (q) => {
-      // Get all users in this station's queue to calculate actual position
-      const stationQueue = await prisma.queue.findMany({
-        where: { stationId: q.stationId },
-        orderBy: { position: 'asc' },
-        select: { userId: true, position: true }
+    if (claimed.count === 0) {
+      console.log(`Pop Queue Debug: Ticket # ${first.position} was claimed by another counter`);
+      return res.status(409).json({
+        error: `Ticket # ${first.position} was just called from another counter. Please try again.`,
+        reason: 'Conflict',
+        position: first.position
       });
+    }
+    await recordQueueEvent(stationId, QUEUE_EVENT_TYPES.CALLED, first);
 
-      // Find this user's actual position in line (1st, 2nd, 3rd, etc.)
-      const userIndex = stationQueue.findIndex(sq => sq.userId === poppedUserId);
-      const actualPosition = userIndex === -1 ? 0 : userIndex + 1;
-
-      console.log(`Pop Queue Debug: Popped user ${poppedUserId} in station ${q.stationId} - position ${q.position}, actual position ${actualPosition}`);
+    // Get updated queue (only needed fields)
+    const seq = await nextStationSeq(stationId);
+    const queue = await getActiveStationQueue(stationId);
 
-      return {
-        stationId: q.stationId,
-        stationName: q.station.name,
-        queueNumber: q.position,
-        actualPosition: actualPosition
-      };
-    }));
+    // Update the called user's personal queue so their card shows the call
+    const userQueueData = await getUserQueueData(poppedUserId);
 
     console.log(`Pop Queue Debug: Publishing to channels for user ${poppedUserId}`);
     console.log(`Pop Queue Debug: User queue data:`, userQueueData);
 
-    // Get all remaining users in this queue to notify them of position changes
-    const remainingUserIds = queue.map(q => q.userId);
-    console.log(`Pop Queue Debug: Remaining users in queue:`, remainingUserIds);
-
-    // Prepare publish operations
+    // Everyone else in line learns about the pop from one delta on the board channel and
+    // moves themselves up, so the cost of a pop no longer grows with the length of the queue
     const publishOperations = [
       publishToChannel(
         CHANNEL_NAMES.QUEUE(stationId),
         EVENT_NAMES.QUEUE_UPDATE,
-        { queue: queue.map(r => ({ user_id: r.userId, position: r.position })) }
+        toStationQueuePayload(queue, seq)
       ),
       publishToChannel(
         CHANNEL_NAMES.QUEUE(stationId),
         EVENT_NAMES.QUEUE_POP,
-        { poppedUserId }
+        { poppedUserId, position: first.position, status: TICKET_STATUS.CALLED, seq }
+      ),
+      publishToChannel(
+        CHANNEL_NAMES.BOARD(stationId),
+        EVENT_NAMES.QUEUE_POP,
+        { position: first.position, status: TICKET_STATUS.CALLED, seq }
       ),
       publishToChannel(
         CHANNEL_NAMES.MY_QUEUES(poppedUserId),
         EVENT_NAMES.QUEUE_UPDATE,
         userQueueData
+      ),
+      // Locked phones miss realtime messages, so the called user and whoever is now close get a push
+      pushToUsers([
+        { userId: poppedUserId, payload: toCalledPush(stationId, station.name, first.position) },
+        ...toAlmostThereMessages(findTicketsMovingUp(queue, first.lineOrder), stationId, station.name)
+      ])
+    ];
+
+    // Parallelize Ably publishing with error isolation
+    const publishResults = await publishToChannelsParallel(publishOperations);
+
+    console.log(`Published ${publishResults}/${publishOperations.length} real-time updates for queue pop`);
+
+    res.json({ popped: poppedUserId, position: first.position });
+  } catch (err) {
+    console.error('Error in pop queue:', err);
+    res.status(500).json({ error: 'DB error' });
+  }
+});
+
+// Person: move a called ticket along its lifecycle (serve, complete, no-show)
+app.post('/queue/:stationId/tickets/:position/:action', async (req, res) => {
+  const { stationId, action } = req.params;
+  const position = parseInt(req.params.position, 10);
+  const transition = TICKET_TRANSITIONS[action];
+
+  if (!transition) {
+    return res.status(404).json({ error: 'Unknown ticket action' });
+  }
+  if (Number.isNaN(position)) {
+    return res.status(400).json({ error: 'Invalid ticket number' });
+  }
+
+  let managerId;
+  try {
+    managerId = parseRequestBody(req).managerId;
+  } catch (e) {
+    return res.status(400).json({ error: 'Invalid request body format', details: e.message });
+  }
+
+  try {
+    const station = await prisma.station.findUnique({ where: { id: stationId } });
+    if (!station || station.managerId !== managerId) return res.status(403).json({ error: 'Forbidden' });
+
+    const ticket = await prisma.queue.findUnique({
+      where: { stationId_position: { stationId, position } },
+      select: { userId: true, status: true, calledAt: true }
+    });
+    if (!ticket) return res.status(404).json({ error: 'Ticket not found' });
+
+    // Conditional update so two counters cannot move the same ticket twice
+    const now = new Date();
+    const updated = await prisma.queue.updateMany({
+      where: { stationId, position, status: { in: transition.from } },
+      data: { status: transition.to, [transition.timestampField]: now }
+    });
+    if (updated.count === 0) {
+      return res.status(409).json({
+        error: `Ticket # ${position} cannot be marked ${transition.to} while ${ticket.status}`,
+        status: ticket.status
+      });
+    }
+    await recordQueueEvent(stationId, transition.ledgerEvent, { userId: ticket.userId, position });
+
+    // Completed tickets feed the service time used for wait estimates
+    if (transition.to === TICKET_STATUS.COMPLETED && ticket.calledAt) {
+      const avgServiceSeconds = getNextAverageServiceSeconds(station.avgServiceSeconds, ticket.calledAt, now);
+      if (avgServiceSeconds !== (station.avgServiceSeconds ?? null)) {
+        await prisma.station.update({ where: { id: stationId }, data: { avgServiceSeconds } });
+      }
+    }
+
+    const seq = await nextStationSeq(stationId);
+    const queue = await getActiveStationQueue(stationId);
+    const userQueueData = await getUserQueueData(ticket.userId);
+
+    const publishResults = await publishToChannelsParallel([
+      publishToChannel(
+        CHANNEL_NAMES.QUEUE(stationId),
+        EVENT_NAMES.QUEUE_UPDATE,
+        toStationQueuePayload(queue, seq)
+      ),
+      publishToChannel(
+        CHANNEL_NAMES.BOARD(stationId),
+        EVENT_NAMES.QUEUE_UPDATE,
+        toBoardQueuePayload(queue, seq)
+      ),
+      publishToChannel(
+        CHANNEL_NAMES.MY_QUEUES(ticket.userId),
+        EVENT_NAMES.QUEUE_UPDATE,
+        userQueueData
+      )
+    ]);
+
+    console.log(`Published ${publishResults}/3 real-time updates for ticket ${action}`);
+
+    res.json({ position, status: transition.to });
+  } catch (err) {
+    console.error(`Error in ticket ${action}:`, err);
+    res.status(500).json({ error: 'DB error' });
+  }
+});
+
+// User: acknowledge a call so the missed-call grace period no longer applies
+app.post('/queue/:stationId/acknowledge', async (req, res) => {
+  const { stationId } = req.params;
+  const userId = req.userId;
+
+  if (!userId) {
+    return res.status(400).json({ error: 'User ID required' });
+  }
+
+  try {
+    const updated = await prisma.queue.updateMany({
+      where: { stationId, userId, status: TICKET_STATUS.CALLED, acknowledgedAt: null },
+      data: { acknowledgedAt: new Date() }
+    });
+    if (updated.count === 0) {
+      return res.status(409).json({ error: 'No pending call to acknowledge' });
+    }
+
+    const seq = await nextStationSeq(stationId);
+    const queue = await getActiveStationQueue(stationId);
+    const userQueueData = await getUserQueueData(userId);
+
+    const publishResults = await publishToChannelsParallel([
+      publishToChannel(
+        CHANNEL_NAMES.QUEUE(stationId),
+        EVENT_NAMES.QUEUE_UPDATE,
+        toStationQueuePayload(queue, seq)
+      ),
+      // Nothing changes on the board, but it follows the same sequence and would otherwise see a gap
+      publishToChannel(
+        CHANNEL_NAMES.BOARD(stationId),
+        EVENT_NAMES.QUEUE_UPDATE,
+        toBoardQueuePayload(queue, seq)
+      ),
+      publishToChannel(
+        CHANNEL_NAMES.MY_QUEUES(userId),
+        EVENT_NAMES.QUEUE_UPDATE,
+        userQueueData
+      )
+    ]);
+
+    console.log(`Published ${publishResults}/3 real-time updates for call acknowledgement`);
+
+    res.json({ acknowledged: true });
+  } catch (err) {
+    console.error('Error acknowledging call:', err);
+    res.status(500).json({ error: 'DB error' });
+  }
+});
+
+// User: leave a queue
+app.delete('/queue/:stationId', async (req, res) => {
+  const { stationId } = req.params;
+  const userId = req.userId;
+
+  if (!userId) {
+    return res.status(400).json({ error: 'User ID required' });
+  }
+
+  try {
+    const ticket = await prisma.queue.findUnique({
+      where: { stationId_userId: { stationId, userId } },
+      select: { position: true, lineOrder: true, status: true }
+    });
+    if (!ticket || !ACTIVE_TICKET_STATUSES.includes(ticket.status)) {
+      return res.status(404).json({ error: 'Not in this queue' });
+    }
+
+    // Conditional update so a ticket being served cannot be abandoned mid-service
+    const updated = await prisma.queue.updateMany({
+      where: { stationId, userId, status: { in: [TICKET_STATUS.WAITING, TICKET_STATUS.CALLED] } },
+      data: { status: TICKET_STATUS.LEFT, finishedAt: new Date() }
+    });
+    if (updated.count === 0) {
+      return res.status(409).json({ error: 'Your ticket is already being served' });
+    }
+    await recordQueueEvent(stationId, QUEUE_EVENT_TYPES.LEFT, { userId, position: ticket.position });
+
+    console.log(`Leave Queue Debug: User ${userId} left station ${stationId} (# ${ticket.position})`);
+
+    const seq = await nextStationSeq(stationId);
+    const queue = await getActiveStationQueue(stationId);
+    const userQueueData = await getUserQueueData(userId);
+
+    // People behind the leaver move themselves up from the board update
+    const publishOperations = [
+      publishToChannel(
+        CHANNEL_NAMES.QUEUE(stationId),
+        EVENT_NAMES.QUEUE_UPDATE,
+        toStationQueuePayload(queue, seq)
+      ),
+      publishToChannel(
+        CHANNEL_NAMES.BOARD(stationId),
+        EVENT_NAMES.QUEUE_UPDATE,
+        toBoardQueuePayload(queue, seq)
+      ),
+      publishToChannel(
+        CHANNEL_NAMES.MY_QUEUES(userId),
+        EVENT_NAMES.QUEUE_UPDATE,
+        userQueueData
       )
     ];
+    const movedUp = ticket.status === TICKET_STATUS.WAITING ? findTicketsMovingUp(queue, ticket.lineOrder) : [];
+    if (movedUp.length > 0) {
+      const station = await prisma.station.findUnique({ where: { id: stationId }, select: { name: true } });
+      publishOperations.push(pushToUsers(toAlmostThereMessages(movedUp, stationId, station?.name ?? 'the station')));
+    }
+
+    const publishResults = await publishToChannelsParallel(publishOperations);
+    console.log(`Published ${publishResults}/${publishOperations.length} real-time updates for queue leave`);
+
+    res.json({ left: true, position: ticket.position });
+  } catch (err) {
+    console.error('Error in leave queue:', err);
+    res.status(500).json({ error: 'DB error' });
+  }
+});
+
+// User: view all queues
+app.get('/my-queues', async (req, res) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    return res.status(400).json({ error: 'User ID required' });
+  }
 
-    // Update personal queues for all remaining users so they get notifications
-    for (const remainingUserId of remainingUserIds) {
-      const remainingUserQueues = await prisma.queue.findMany({
-        where: { userId: remainingUserId },
-        include: { station: { select: { name: true } } },
-        orderBy: { position: 'asc' }
+  try {
+    // The tickets carry their stations' sequences, so they change whenever a position could;
+    // an unchanged list skips counting the people ahead
+    const tickets = await findUserTickets(userId);
+    if (isNotModified(req, res, makeEtag(tickets))) return;
+    const result = await getUserQueueData(userId, tickets);
+    res.json(result);
+  } catch (err) {
+    res.status(500).json({ error: 'DB error' });
+  }
+});
+
+// Claim codes leave out characters that are easy to misread (0/O, 1/I/L)
+const CLAIM_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const CLAIM_CODE_LENGTH = 8;
+const CLAIM_CODE_PATTERN = new RegExp(`^[${CLAIM_CODE_ALPHABET}]{${CLAIM_CODE_LENGTH}}$`);
+const CLAIM_CODE_CREATE_ATTEMPTS = 5;
+// Tickets don't outlive a day, and old codes only add to what can be guessed
+const CLAIM_CODE_TTL_MS = 24 * 60 * 60 * 1000;
+// Failed redemptions allowed per address or user within the window; with 31^8 codes
+// this keeps guessing a live code out of reach
+const CLAIM_MAX_FAILED_ATTEMPTS = 5;
+const CLAIM_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+const generateClaimCode = () =>
+  Array.from({ length: CLAIM_CODE_LENGTH }, () => CLAIM_CODE_ALPHABET[randomInt(CLAIM_CODE_ALPHABET.length)]).join('');
+
+// Accepts codes typed in any case, with or without the display dash and spaces
+const normalizeClaimCode = (code) => (typeof code === 'string' ? code.toUpperCase().replace(/[\s-]/g, '') : '');
+
+// Netlify passes the caller's address in its own header. Anywhere else the caller could set that
+// header themselves, so only the address Express sees can be trusted.
+const getClientIp = (req) =>
+  (process.env.NETLIFY ? req.headers['x-nf-client-connection-ip'] : undefined) ?? req.ip ?? 'unknown';
+
+const isClaimCodeExpired = (claim) => new Date(claim.expiresAt).getTime() <= Date.now();
+
+// Helper to return the user's claim code, issuing a new one on first use or once it has expired
+async function getOrCreateClaimCode(userId) {
+  for (let attempt = 0; attempt < CLAIM_CODE_CREATE_ATTEMPTS; attempt++) {
+    const existing = await prisma.claimCode.findUnique({ where: { userId } });
+    if (existing && !isClaimCodeExpired(existing)) return existing;
+    // Clears this user's expired code along with everyone else's, so the new one can take its place
+    await prisma.claimCode.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+    try {
+      return await prisma.claimCode.create({
+        data: { code: generateClaimCode(), userId, expiresAt: new Date(Date.now() + CLAIM_CODE_TTL_MS) }
       });
+    } catch (err) {
+      // Either the code is taken or a parallel request issued this user's code; look again
+      if (err.code !== 'P2002') throw err;
+    }
+  }
+  throw new Error('Could not issue a claim code');
+}
 
-      const remainingUserQueueData = await Promise.all(remainingUserQueues.map(async (q) => {
-        // Get all users in this station's queue to calculate actual position
-        const stationQueue = await prisma.queue.findMany({
-          where: { stationId: q.stationId },
-          orderBy: { position: 'asc' },
-          select: { userId: true, position: true }
-        });
+// Helper to record a redemption attempt before the code is looked up, and find how long the
+// caller must wait; retryAfterMs is 0 when allowed. The insert commits on its own before the count,
+// so parallel guesses see each other: the n-th to land counts the n - 1 before it. An attempt stays
+// as a failure unless the route forgets it; refused attempts are forgotten here, so hammering the
+// endpoint doesn't extend the wait.
+async function recordClaimAttempt(ip, userId) {
+  const attempt = await prisma.claimAttempt.create({ data: { ip, userId }, select: { id: true } });
+  const since = new Date(Date.now() - CLAIM_ATTEMPT_WINDOW_MS);
+  const earlier = await prisma.claimAttempt.findMany({
+    where: { id: { not: attempt.id }, createdAt: { gt: since }, OR: [{ ip }, { userId }] },
+    orderBy: { createdAt: 'asc' },
+    select: { createdAt: true }
+  });
+  if (earlier.length < CLAIM_MAX_FAILED_ATTEMPTS) return { attemptId: attempt.id, retryAfterMs: 0 };
 
-        // Find this user's actual position in line (1st, 2nd, 3rd, etc.)
-        const userIndex = stationQueue.findIndex(sq => sq.userId === remainingUserId);
-        const actualPosition = userIndex === -1 ? 0 : userIndex + 1;
+  await forgetClaimAttempt(attempt.id);
+  // Allowed again once enough of the window's failures have aged out
+  const unlockingFailure = earlier[earlier.length - CLAIM_MAX_FAILED_ATTEMPTS];
+  const retryAfterMs = Math.max(new Date(unlockingFailure.createdAt).getTime() + CLAIM_ATTEMPT_WINDOW_MS - Date.now(), 1000);
+  return { attemptId: null, retryAfterMs };
+}
 
-        return {
-          stationId: q.stationId,
-          stationName: q.station.name,
-          queueNumber: q.position,
-          actualPosition: actualPosition
-        };
-      }));
+// Helper to drop an attempt that turned out not to be a failed guess
+async function forgetClaimAttempt(attemptId) {
+  await prisma.claimAttempt.deleteMany({ where: { id: attemptId } });
+}
+
+// Helper to drop attempts too old to count
+async function pruneClaimAttempts() {
+  await prisma.claimAttempt.deleteMany({ where: { createdAt: { lt: new Date(Date.now() - CLAIM_ATTEMPT_WINDOW_MS) } } });
+}
+
+// User: the claim code that moves this user's tickets to another device. Only ticket holders get
+// one, so the number of live codes stays close to the number of people waiting.
+app.get('/claim-code', async (req, res) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    return res.status(400).json({ error: 'User ID required' });
+  }
+
+  try {
+    const ticket = await prisma.queue.findFirst({
+      where: { userId, status: { in: ACTIVE_TICKET_STATUSES } },
+      select: { stationId: true }
+    });
+    if (!ticket) return res.status(404).json({ error: 'No active tickets to claim' });
+
+    const { code, expiresAt } = await getOrCreateClaimCode(userId);
+    res.json({ code, expiresAt });
+  } catch (err) {
+    console.error('Error issuing claim code:', err);
+    res.status(500).json({ error: 'DB error' });
+  }
+});
+
+// User: move the active tickets of the code's owner to this device's user. The code is
+// retired afterwards, so a code that was read out or written down only works once.
+app.post('/claim-code/redeem', async (req, res) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    return res.status(400).json({ error: 'User ID required' });
+  }
+
+  let body;
+  try {
+    body = parseRequestBody(req);
+  } catch (e) {
+    return res.status(400).json({ error: 'Invalid request body format', details: e.message });
+  }
+
+  const code = normalizeClaimCode(body?.code);
+  if (!CLAIM_CODE_PATTERN.test(code)) {
+    return res.status(400).json({ error: 'Invalid claim code' });
+  }
 
+  const ip = getClientIp(req);
+  try {
+    const { attemptId, retryAfterMs } = await recordClaimAttempt(ip, userId);
+    if (retryAfterMs > 0) {
+      console.log(`Claim Debug: Rate limited redemption from ${ip} for user ${userId}`);
+      res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+      return res.status(429).json({ error: 'Too many attempts, please try again later' });
+    }
+
+    const claim = await prisma.claimCode.findUnique({ where: { code } });
+    if (!claim || isClaimCodeExpired(claim)) {
+      await pruneClaimAttempts();
+      return res.status(404).json({ error: 'Claim code not found' });
+    }
+    // The code was right, so this was no guess
+    await forgetClaimAttempt(attemptId);
+    if (claim.userId === userId) {
+      return res.status(400).json({ error: 'This code already belongs to this device' });
+    }
+
+    const previousUserId = claim.userId;
+    const tickets = await prisma.queue.findMany({
+      where: { userId: previousUserId, status: { in: ACTIVE_TICKET_STATUSES } },
+      select: { stationId: true }
+    });
+    const stationIds = tickets.map(t => t.stationId);
+
+    // One user holds one ticket per station, so an active ticket here blocks the move
+    const clashing = await prisma.queue.findMany({
+      where: { userId, stationId: { in: stationIds }, status: { in: ACTIVE_TICKET_STATUSES } },
+      include: { station: { select: { name: true } } }
+    });
+    if (clashing.length > 0) {
+      return res.status(409).json({
+        error: `You already have a ticket at ${clashing.map(t => t.station.name).join(', ')}. Leave it first to claim this one.`
+      });
+    }
+
+    // The checks above ran outside the transaction, so the writes guard themselves: retiring the
+    // code first fails with P2025 when another device redeemed it meanwhile, and a ticket this user
+    // took since then is left alone and makes the move fail with P2002 instead of being replaced.
+    // Finished tickets of this user would collide with the moved ones, as joining again would.
+    await prisma.$transaction([
+      prisma.claimCode.delete({ where: { code } }),
+      prisma.queue.deleteMany({ where: { userId, stationId: { in: stationIds }, status: { notIn: ACTIVE_TICKET_STATUSES } } }),
+      prisma.queue.updateMany({
+        where: { userId: previousUserId, stationId: { in: stationIds }, status: { in: ACTIVE_TICKET_STATUSES } },
+        data: { userId }
+      })
+    ]);
+
+    console.log(`Claim Debug: Moved ${stationIds.length} ticket(s) from user ${previousUserId} to ${userId}`);
+
+    // Managers see tickets by user id, and both devices' lists changed
+    const publishOperations = [];
+    for (const stationId of stationIds) {
+      const seq = await nextStationSeq(stationId);
+      const queue = await getActiveStationQueue(stationId);
       publishOperations.push(
         publishToChannel(
-          CHANNEL_NAMES.MY_QUEUES(remainingUserId),
+          CHANNEL_NAMES.QUEUE(stationId),
+          EVENT_NAMES.QUEUE_UPDATE,
+          toStationQueuePayload(queue, seq)
+        ),
+        // Boards show nothing new, but their sequence must not skip a number
+        publishToChannel(
+          CHANNEL_NAMES.BOARD(stationId),
           EVENT_NAMES.QUEUE_UPDATE,
-          remainingUserQueueData
+          toBoardQueuePayload(queue, seq)
         )
       );
     }
+    publishOperations.push(...await buildMyQueuesPublishes([previousUserId, userId]));
 
-    // Parallelize Ably publishing with error isolation
     const publishResults = await publishToChannelsParallel(publishOperations);
+    console.log(`Published ${publishResults}/${publishOperations.length} real-time updates for ticket claim`);
 
-    console.log(`Published ${publishResults}/${publishOperations.length} real-time updates for queue pop`);
+    res.json({ claimed: stationIds.length });
+  } catch (err) {
+    if (err.code === 'P2025') return res.status(404).json({ error: 'Claim code not found' });
+    if (err.code === 'P2002') {
+      return res.status(409).json({ error: 'You joined one of these queues in the meantime. Leave it first to claim this ticket.' });
+    }
+    console.error('Error redeeming claim code:', err);
+    res.status(500).json({ error: 'DB error' });
+  }
+});
 
-    res.json({ popped: poppedUserId });
+// Public: the VAPID key browsers need to subscribe to Web Push
+app.get('/push/public-key', async (req, res) => {
+  try {
+    const vapid = await getVapidKeys();
+    if (!vapid) return res.status(503).json({ error: 'Push notifications are not configured' });
+    res.json({ publicKey: vapid.publicKey });
   } catch (err) {
-    console.error('Error in pop queue:', err);
     res.status(500).json({ error: 'DB error' });
   }
 });
 
-// User: view all queues
-app.get('/my-queues', async (req, res) => {
+const PUSH_KEY_PATTERN = /^[A-Za-z0-9_-]+={0,2}$/;
+// A device keeps a preference for every queue it ever set one for
+const MAX_PUSH_ALERT_PREFERENCES = 200;
+
+// Helper to validate the per-queue alert preferences a device sends with its subscription.
+// Returns only the known fields, or null when anything is malformed.
+function parseAlertPreferences(value) {
+  if (value === undefined) return {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  const entries = Object.entries(value);
+  if (entries.length > MAX_PUSH_ALERT_PREFERENCES) return null;
+  const isValid = entries.every(([, preference]) =>
+    PUSH_ALERT_MODES.includes(preference?.mode)
+    && Number.isInteger(preference.peopleAhead)
+    && preference.peopleAhead >= 0
+    && preference.peopleAhead <= PUSH_MAX_PEOPLE_AHEAD);
+  if (!isValid) return null;
+  return Object.fromEntries(entries.map(([stationId, { mode, peopleAhead }]) => [stationId, { mode, peopleAhead }]));
+}
+
+// Push services of the browsers that support Web Push (Chrome and most others, Firefox, Safari,
+// Edge). The API posts to whatever endpoint is stored, so anything else is refused.
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'updates.push.services.mozilla.com'];
+const PUSH_SERVICE_HOST_SUFFIXES = ['.push.apple.com', '.notify.windows.com'];
+
+const isPushServiceHost = (hostname) =>
+  PUSH_SERVICE_HOSTS.includes(hostname) || PUSH_SERVICE_HOST_SUFFIXES.some(suffix => hostname.endsWith(suffix));
+
+// Push services are always HTTPS on the default port. A plain HTTP stand-in on this machine is
+// only accepted with PUSH_ALLOW_LOCAL_ENDPOINTS=true, for trying push without a browser vendor.
+function isValidPushEndpoint(endpoint) {
+  if (typeof endpoint !== 'string' || endpoint.length > 2048) return false;
+  try {
+    const url = new URL(endpoint);
+    if (url.protocol === 'https:') return url.port === '' && isPushServiceHost(url.hostname);
+    return process.env.PUSH_ALLOW_LOCAL_ENDPOINTS === 'true'
+      && url.protocol === 'http:'
+      && ['localhost', '127.0.0.1'].includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+// User: register this device for Web Push alerts (the browser's PushSubscription.toJSON()), with
+// its per-queue alertPreferences. Devices post again whenever a preference changes.
+app.post('/push/subscriptions', async (req, res) => {
   const userId = req.userId;
 
   if (!userId) {
     return res.status(400).json({ error: 'User ID required' });
   }
 
+  let body;
+  try {
+    body = parseRequestBody(req);
+  } catch (e) {
+    return res.status(400).json({ error: 'Invalid request body format', details: e.message });
+  }
+
+  const { endpoint, keys } = body ?? {};
+  if (!isValidPushEndpoint(endpoint) || !PUSH_KEY_PATTERN.test(keys?.p256dh ?? '') || !PUSH_KEY_PATTERN.test(keys?.auth ?? '')) {
+    return res.status(400).json({ error: 'Invalid push subscription' });
+  }
+  const alertPreferences = parseAlertPreferences(body.alertPreferences);
+  if (!alertPreferences) {
+    return res.status(400).json({ error: 'Invalid alert preferences' });
+  }
+
   try {
-    const queues = await prisma.queue.findMany({
-      where: { userId },
-      include: { station: { select: { name: true } } },
-      orderBy: { position: 'asc' }
+    // An endpoint belongs to one browser, so re-subscribing moves it to the current user
+    await prisma.pushSubscription.upsert({
+      where: { endpoint },
+      update: { userId, p256dh: keys.p256dh, auth: keys.auth, alertPreferences },
+      create: { userId, endpoint, p256dh: keys.p256dh, auth: keys.auth, alertPreferences }
     });
-    const result = await Promise.all(queues.map(async (q) => {
-      // Get all users in this station's queue to calculate actual position
-      const stationQueue = await prisma.queue.findMany({
-        where: { stationId: q.stationId },
-        orderBy: { position: 'asc' },
-        select: { userId: true, position: true }
-      });
+    console.log(`Push Debug: Stored subscription for user ${userId}`);
+    res.status(201).json({ subscribed: true });
+  } catch (err) {
+    console.error('Error storing push subscription:', err);
+    res.status(500).json({ error: 'DB error' });
+  }
+});
 
-      // Find this user's actual position in line (1st, 2nd, 3rd, etc.)
-      const userIndex = stationQueue.findIndex(sq => sq.userId === userId);
-      const actualPosition = userIndex === -1 ? 0 : userIndex + 1;
+// User: stop Web Push alerts on this device (?endpoint=<subscription endpoint>)
+app.delete('/push/subscriptions', async (req, res) => {
+  const userId = req.userId;
 
-      return {
-        stationId: q.stationId,
-        stationName: q.station.name,
-        queueNumber: q.position,
-        actualPosition: actualPosition
-      };
-    }));
+  if (!userId) {
+    return res.status(400).json({ error: 'User ID required' });
+  }
 
-    res.json(result);
+  const { endpoint } = req.query;
+  if (typeof endpoint !== 'string') {
+    return res.status(400).json({ error: 'Endpoint required' });
+  }
+
+  try {
+    const deleted = await prisma.pushSubscription.deleteMany({ where: { userId, endpoint } });
+    res.json({ unsubscribed: deleted.count > 0 });
   } catch (err) {
+    console.error('Error removing push subscription:', err);
     res.status(500).json({ error: 'DB error' });
   }
 });
 
+// Errors a route did not catch itself, e.g. a failed admin secret lookup. Answering through res.json
+// also drops the request's idempotency record (server errors are never stored), so a retry with the
+// same key runs again rather than being told for a day that the first attempt is still in progress.
+app.use((err, req, res, next) => {
+  if (res.headersSent) return next(err);
+  // Client errors raised by Express itself, such as a malformed JSON body, keep their status
+  const status = err.status ?? err.statusCode ?? 500;
+  if (status < 500) {
+    return res.status(status).json({ error: err.expose ? err.message : 'Bad request' });
+  }
+  console.error(`Unhandled error in ${req.method} ${req.path}:`, err);
+  res.status(500).json({ error: 'Internal server error' });
+});
+
 const serverlessHandler = serverless(app, { basePath: '/.netlify/functions/api' });
 export const handler = serverlessHandler;
 export default app;
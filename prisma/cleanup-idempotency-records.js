@@ -0,0 +1,37 @@
+// Script to delete expired idempotency records
+// Stored responses only need to outlive client retries, and the API treats
+// records older than 24 hours as unseen anyway.
+// Usage: node prisma/cleanup-idempotency-records.js
+
+// Handle both ESM and CommonJS
+let PrismaClient;
+try {
+  PrismaClient = require('@prisma/client').PrismaClient;
+} catch (e) {
+  // If require fails, we're in ESM mode
+  PrismaClient = (await import('@prisma/client')).PrismaClient;
+}
+
+const prisma = new PrismaClient();
+
+const RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+
+async function main() {
+  const cutoff = new Date(Date.now() - RECORD_TTL_MS);
+  console.log(`Deleting idempotency records created before ${cutoff.toISOString()}...`);
+
+  const { count } = await prisma.idempotencyRecord.deleteMany({
+    where: { createdAt: { lt: cutoff } }
+  });
+
+  console.log(`Deleted ${count} expired idempotency records.`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Error during cleanup:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
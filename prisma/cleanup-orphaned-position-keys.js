@@ -1,5 +1,7 @@
-// Script to clean up orphaned lastPosition config entries
-// This script finds and removes lastPosition entries for stations that no longer exist
+// Script to clean up legacy lastPosition config entries
+// Ticket counters now live in the Station.lastPosition column, so any
+// lastPosition:<stationId> entries left in the Config table are obsolete.
+// Entries for stations that still exist are folded into the column first.
 // Usage: node prisma/cleanup-orphaned-position-keys.js
 
 // Handle both ESM and CommonJS
@@ -14,7 +16,7 @@ try {
 const prisma = new PrismaClient();
 
 async function main() {
-  console.log('Starting cleanup of orphaned lastPosition entries...');
+  console.log('Starting cleanup of legacy lastPosition entries...');
   
   // Find all lastPosition config entries
   const positionEntries = await prisma.config.findMany({
@@ -27,6 +29,11 @@ async function main() {
   
   console.log(`Found ${positionEntries.length} lastPosition entries in the Config table.`);
   
+  if (positionEntries.length === 0) {
+    console.log('No legacy entries found. Database is clean!');
+    return;
+  }
+  
   // Get all active station IDs
   const stations = await prisma.station.findMany({
     select: { id: true }
@@ -35,27 +42,29 @@ async function main() {
   
   console.log(`Found ${stationIds.size} active stations.`);
   
-  // Find orphaned entries
-  const orphanedEntries = positionEntries.filter(entry => {
+  for (const entry of positionEntries) {
     // Extract the stationId from the key (format: lastPosition:stationId)
     const stationId = entry.key.split(':')[1];
-    return !stationIds.has(stationId);
-  });
-  
-  console.log(`Found ${orphanedEntries.length} orphaned lastPosition entries.`);
-  
-  // Delete orphaned entries
-  if (orphanedEntries.length > 0) {
-    for (const entry of orphanedEntries) {
-      await prisma.config.delete({
-        where: { key: entry.key }
+    const legacyPosition = parseInt(entry.value, 10);
+    
+    if (stationIds.has(stationId) && !Number.isNaN(legacyPosition)) {
+      // Make sure the station counter never falls behind the legacy value
+      const raised = await prisma.station.updateMany({
+        where: { id: stationId, lastPosition: { lt: legacyPosition } },
+        data: { lastPosition: legacyPosition }
       });
-      console.log(`Deleted orphaned entry with key: ${entry.key}`);
+      if (raised.count > 0) {
+        console.log(`Raised lastPosition of station ${stationId} to ${legacyPosition}`);
+      }
     }
-    console.log(`Successfully deleted ${orphanedEntries.length} orphaned entries.`);
-  } else {
-    console.log('No orphaned entries found. Database is clean!');
+    
+    await prisma.config.delete({
+      where: { key: entry.key }
+    });
+    console.log(`Deleted legacy entry with key: ${entry.key}`);
   }
+  
+  console.log(`Successfully deleted ${positionEntries.length} legacy entries.`);
 }
 
 main()
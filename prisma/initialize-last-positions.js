@@ -26,15 +26,15 @@ async function main() {
       _max: { position: true }
     });
     
-    // Use at least 99 as the starting value (so next position will be 100)
-    const lastPosition = Math.max(max._max.position || 0, 99);
-    const positionKey = `lastPosition:${station.id}`;
+    // Use at least 99 as the starting value (so next position will be 100),
+    // and never move the counter backwards
+    const lastPosition = Math.max(max._max.position || 0, station.lastPosition, 99);
     
-    // Upsert the last position record
-    await prisma.config.upsert({
-      where: { key: positionKey },
-      update: { value: String(lastPosition) },
-      create: { key: positionKey, value: String(lastPosition) },
+    // Only raise the counter if it is still below that value, so a join that
+    // increments it concurrently is never overwritten
+    await prisma.station.updateMany({
+      where: { id: station.id, lastPosition: { lt: lastPosition } },
+      data: { lastPosition },
     });
     
     console.log(`Station ${station.name} (${station.id}) - Last position set to ${lastPosition}`);
@@ -0,0 +1,12 @@
+-- Track the ticket lifecycle instead of deleting rows on pop
+-- Existing queue entries are treated as waiting tickets that joined now
+
+-- AlterTable
+ALTER TABLE "Queue" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'waiting',
+ADD COLUMN "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "calledAt" TIMESTAMP(3),
+ADD COLUMN "servedAt" TIMESTAMP(3),
+ADD COLUMN "finishedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Queue_stationId_status_idx" ON "Queue"("stationId", "status");
@@ -0,0 +1,20 @@
+-- Per-station grace period for called tickets, and the fields needed to requeue a missed call
+
+-- AlterTable
+ALTER TABLE "Station" ADD COLUMN "callGraceSeconds" INTEGER NOT NULL DEFAULT 120,
+ADD COLUMN "missedCallAction" TEXT NOT NULL DEFAULT 'requeue',
+ADD COLUMN "requeueOffset" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN "maxRecalls" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Queue" ADD COLUMN "lineOrder" DOUBLE PRECISION,
+ADD COLUMN "acknowledgedAt" TIMESTAMP(3),
+ADD COLUMN "recallCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing tickets keep their current order in line
+UPDATE "Queue" SET "lineOrder" = "position";
+
+ALTER TABLE "Queue" ALTER COLUMN "lineOrder" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Queue_stationId_lineOrder_idx" ON "Queue"("stationId", "lineOrder");
@@ -0,0 +1,20 @@
+-- Move the per-station ticket counter out of the generic Config table
+-- into a Station column that can be incremented atomically
+
+-- AlterTable
+ALTER TABLE "Station" ADD COLUMN "lastPosition" INTEGER NOT NULL DEFAULT 99;
+
+-- Carry over existing counters, never going below a number already handed out
+UPDATE "Station" s
+SET "lastPosition" = GREATEST(
+    99,
+    COALESCE((SELECT c.value::INTEGER FROM "Config" c WHERE c.key = 'lastPosition:' || s.id), 99),
+    COALESCE((SELECT MAX(q.position) FROM "Queue" q WHERE q."stationId" = s.id), 99)
+);
+
+-- The counter now lives and dies with the station row, so the cleanup trigger is no longer needed
+DROP TRIGGER IF EXISTS station_delete_cleanup ON "Station";
+DROP FUNCTION IF EXISTS delete_station_lastposition();
+
+-- Remove the old Config entries
+DELETE FROM "Config" WHERE key LIKE 'lastPosition:%';
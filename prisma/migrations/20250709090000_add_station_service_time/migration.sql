@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Station" ADD COLUMN     "avgServiceSeconds" DOUBLE PRECISION;
+
+-- Seed the rolling average from tickets that already completed
+UPDATE "Station" s
+SET "avgServiceSeconds" = t.avg_seconds
+FROM (
+    SELECT "stationId", AVG(EXTRACT(EPOCH FROM ("finishedAt" - "calledAt"))) AS avg_seconds
+    FROM "Queue"
+    WHERE "status" = 'completed' AND "calledAt" IS NOT NULL AND "finishedAt" IS NOT NULL
+    GROUP BY "stationId"
+) t
+WHERE s."id" = t."stationId";
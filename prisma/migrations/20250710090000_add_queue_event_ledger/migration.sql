@@ -0,0 +1,19 @@
+-- Keep a history of ticket events for station analytics
+
+-- CreateTable
+CREATE TABLE "QueueEvent" (
+    "id" SERIAL NOT NULL,
+    "stationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QueueEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QueueEvent_stationId_createdAt_idx" ON "QueueEvent"("stationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "QueueEvent" ADD CONSTRAINT "QueueEvent_stationId_fkey" FOREIGN KEY ("stationId") REFERENCES "Station"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Station" ADD COLUMN "announcementTemplate" TEXT NOT NULL DEFAULT 'Number {number}, please proceed to {station}',
+ADD COLUMN "announcementLanguage" TEXT NOT NULL DEFAULT 'en-US',
+ADD COLUMN "announcementVoice" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Station" ADD COLUMN "eventSeq" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,15 @@
+-- Browser Web Push subscriptions, so turn alerts reach locked phones
+
+-- CreateTable
+CREATE TABLE "PushSubscription" (
+    "endpoint" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "p256dh" TEXT NOT NULL,
+    "auth" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PushSubscription_pkey" PRIMARY KEY ("endpoint")
+);
+
+-- CreateIndex
+CREATE INDEX "PushSubscription_userId_idx" ON "PushSubscription"("userId");
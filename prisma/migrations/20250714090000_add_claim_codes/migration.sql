@@ -0,0 +1,30 @@
+-- Short claim codes that move a user's tickets to another device, and the failed
+-- redemptions used to rate limit guessing
+
+-- CreateTable
+CREATE TABLE "ClaimCode" (
+    "code" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClaimCode_pkey" PRIMARY KEY ("code")
+);
+
+-- CreateTable
+CREATE TABLE "ClaimAttempt" (
+    "id" SERIAL NOT NULL,
+    "ip" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClaimAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClaimCode_userId_key" ON "ClaimCode"("userId");
+
+-- CreateIndex
+CREATE INDEX "ClaimAttempt_ip_createdAt_idx" ON "ClaimAttempt"("ip", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ClaimAttempt_userId_createdAt_idx" ON "ClaimAttempt"("userId", "createdAt");
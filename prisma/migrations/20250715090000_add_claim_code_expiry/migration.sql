@@ -0,0 +1,9 @@
+-- Claim codes expire a day after they are issued
+
+-- AlterTable
+ALTER TABLE "ClaimCode" ADD COLUMN "expiresAt" TIMESTAMP(3);
+UPDATE "ClaimCode" SET "expiresAt" = "createdAt" + INTERVAL '1 day';
+ALTER TABLE "ClaimCode" ALTER COLUMN "expiresAt" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "ClaimCode_expiresAt_idx" ON "ClaimCode"("expiresAt");
@@ -0,0 +1,4 @@
+-- Devices send their per-queue alert preferences, so pushes respect mute and thresholds
+
+-- AlterTable
+ALTER TABLE "PushSubscription" ADD COLUMN "alertPreferences" JSONB NOT NULL DEFAULT '{}';
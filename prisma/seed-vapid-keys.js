@@ -0,0 +1,56 @@
+// Script to generate a VAPID key pair for Web Push and store it in the Config table using Prisma.
+// The keys are generated locally; no push service account is needed.
+// Usage: node prisma/seed-vapid-keys.js [subject]   e.g. mailto:queue-admin@example.com
+// Run it again to rotate the keys; browsers then have to subscribe again.
+
+// Handle both ESM and CommonJS
+let PrismaClient;
+let generateKeyPairSync;
+try {
+  PrismaClient = require('@prisma/client').PrismaClient;
+  generateKeyPairSync = require('crypto').generateKeyPairSync;
+} catch (e) {
+  // If require fails, we're in ESM mode
+  PrismaClient = (await import('@prisma/client')).PrismaClient;
+  generateKeyPairSync = (await import('crypto')).generateKeyPairSync;
+}
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const subject = process.argv[2] || 'mailto:admin@localhost';
+  if (!/^(mailto:|https:\/\/)/.test(subject)) {
+    console.error('Usage: node prisma/seed-vapid-keys.js [mailto:you@example.com | https://your-site]');
+    process.exit(1);
+  }
+
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const privateJwk = privateKey.export({ format: 'jwk' });
+  const publicJwk = publicKey.export({ format: 'jwk' });
+  // Browsers take the public key as an uncompressed P-256 point
+  const rawPublicKey = Buffer.concat([
+    Buffer.from([4]),
+    Buffer.from(publicJwk.x, 'base64url'),
+    Buffer.from(publicJwk.y, 'base64url'),
+  ]).toString('base64url');
+
+  const values = {
+    VAPID_PUBLIC_KEY: rawPublicKey,
+    VAPID_PRIVATE_KEY: privateJwk.d,
+    VAPID_SUBJECT: subject,
+  };
+  for (const [key, value] of Object.entries(values)) {
+    await prisma.config.upsert({
+      where: { key },
+      update: { value },
+      create: { key, value },
+    });
+  }
+  console.log('VAPID keys set successfully in database. Public key:', rawPublicKey);
+  await prisma.$disconnect();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+// Service worker for the installable app. It only caches the app shell: ticket data is kept by
+// the page itself (see src/utils/offlineSnapshot.ts), and API calls always go to the network.
+
+// Filled in by precacheServiceWorker in vite.config.ts with the build's hashed files and a version
+// that changes with them, so a new deploy installs a fresh cache and `activate` drops the old one
+const BUILD_VERSION = 'dev';
+const BUILD_ASSETS = [];
+
+const CACHE_NAME = `station-queue-shell-${BUILD_VERSION}`;
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll([...SHELL_URLS, ...BUILD_ASSETS]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/.netlify/')) return;
+
+  // Pages: network first so deploys show up at once; every route is the same index.html offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          // Only a real page may stand in for every route; never an error page or a redirect
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then(cache => cache.put('/index.html', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Built assets have content hashes in their names, so a cached copy never goes stale. Anything
+  // the precache missed, such as a lazily loaded file from an older build, is cached on first use.
+  event.respondWith(
+    caches.match(request).then(cached => {
+      if (cached) return cached;
+      return fetch(request).then(response => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
+
+// Turn alerts sent by the API (pushToUsers in netlify/functions/api.js)
+self.addEventListener('push', event => {
+  let message;
+  try {
+    message = event.data.json();
+  } catch {
+    return;
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      tag: message.tag,
+      renotify: true,
+      icon: '/icon.svg',
+      badge: '/icon.svg',
+      // A call stays on screen until it is seen
+      requireInteraction: Boolean(message.urgent),
+      vibrate: message.urgent ? [300, 100, 300, 100, 300] : [200],
+      data: { url: '/' },
+    })
+  );
+});
+
+// Open the app, or bring an open tab to the front, when an alert is tapped
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(client => new URL(client.url).origin === self.location.origin);
+      return open ? open.focus() : self.clients.openWindow(event.notification.data?.url ?? '/');
+    })
+  );
+});
@@ -2,14 +2,42 @@ import 'bootstrap/dist/css/bootstrap.min.css';
 import api from './api';
 import React, { useState, useEffect } from 'react';
 import { initAbly, subscribeToChannel, CHANNEL_NAMES, EVENT_NAMES } from './ablyUtils';
+import type { Station, MissedCallAction } from './types/queue.types';
+import StationAnalytics from './StationAnalytics';
+import StationPoster from './StationPoster';
+import { buildPath, navigate } from './hooks/useRoute';
+import { useAnnouncer, formatAnnouncement } from './hooks/useAnnouncer';
+import { DEFAULT_ANNOUNCEMENT } from './constants/queue.constants';
 
 const ADMIN_SECRET_KEY = 'adminSecret';
 
-interface AdminPanelProps {
-  onSwitchView?: (view: 'user' | 'person' | 'admin') => void;
+interface AdminStation extends Station {
+  managerId?: string;
 }
 
-const AdminPanel: React.FC<AdminPanelProps> = ({ onSwitchView }) => {
+interface CallSettings {
+  stationId: string;
+  callGraceSeconds: number;
+  missedCallAction: MissedCallAction;
+  requeueOffset: number;
+  maxRecalls: number;
+  announcementTemplate: string;
+  announcementLanguage: string;
+  announcementVoice: string;
+}
+
+// Mirrors the column defaults in prisma/schema.prisma
+const DEFAULT_CALL_SETTINGS: Omit<CallSettings, 'stationId'> = {
+  callGraceSeconds: 120,
+  missedCallAction: 'requeue',
+  requeueOffset: 3,
+  maxRecalls: 1,
+  announcementTemplate: DEFAULT_ANNOUNCEMENT.template,
+  announcementLanguage: DEFAULT_ANNOUNCEMENT.language,
+  announcementVoice: '',
+};
+
+const AdminPanel: React.FC = () => {
   const [secret, setSecret] = useState(() => {
     // Initialize from localStorage if available
     return localStorage.getItem(ADMIN_SECRET_KEY) ?? '';
@@ -28,8 +56,12 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onSwitchView }) => {
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [loading, setLoading] = useState(false);
-  const [stations, setStations] = useState<Array<{ id: string; name: string; managerId?: string }>>([]);
+  const [stations, setStations] = useState<AdminStation[]>([]);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [callSettings, setCallSettings] = useState<CallSettings | null>(null);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [posterStation, setPosterStation] = useState<AdminStation | null>(null);
+  const { announce, supported: speechSupported } = useAnnouncer();
   // Initialize Ably and check for saved admin secret
   useEffect(() => {
     const userId = localStorage.getItem('userId') ?? '';
@@ -142,6 +174,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onSwitchView }) => {
     try {
       await api.delete(`/admin/stations/${id}`, { headers: { 'x-admin-secret': secret } });
       setSuccess('Station deleted successfully');
+      setPosterStation(prev => (prev?.id === id ? null : prev));
       await fetchStations(secret);
     } catch (e) {
       const err = e as { response?: { data?: { error?: string } } };
@@ -154,6 +187,59 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onSwitchView }) => {
       setLoading(false);
     }
   };
+  const editCallSettings = (station: AdminStation) => {
+    setError('');
+    setSuccess('');
+    setCallSettings({
+      stationId: station.id,
+      callGraceSeconds: station.callGraceSeconds ?? DEFAULT_CALL_SETTINGS.callGraceSeconds,
+      missedCallAction: station.missedCallAction ?? DEFAULT_CALL_SETTINGS.missedCallAction,
+      requeueOffset: station.requeueOffset ?? DEFAULT_CALL_SETTINGS.requeueOffset,
+      maxRecalls: station.maxRecalls ?? DEFAULT_CALL_SETTINGS.maxRecalls,
+      announcementTemplate: station.announcementTemplate ?? DEFAULT_CALL_SETTINGS.announcementTemplate,
+      announcementLanguage: station.announcementLanguage ?? DEFAULT_CALL_SETTINGS.announcementLanguage,
+      announcementVoice: station.announcementVoice ?? DEFAULT_CALL_SETTINGS.announcementVoice,
+    });
+  };
+
+  // Speak the announcement on this device, as a display board would
+  const previewAnnouncement = () => {
+    if (!callSettings) return;
+    const stationName = stations.find(s => s.id === callSettings.stationId)?.name ?? '';
+    announce({
+      text: formatAnnouncement(callSettings.announcementTemplate, { number: 100, station: stationName }),
+      language: callSettings.announcementLanguage,
+      voice: callSettings.announcementVoice || null,
+    });
+  };
+
+  const saveCallSettings = async () => {
+    if (!callSettings) return;
+    setError('');
+    setSuccess('');
+    setLoading(true);
+    try {
+      const { stationId, ...settings } = callSettings;
+      await api.patch(`/admin/stations/${stationId}`, settings, { headers: { 'x-admin-secret': secret } });
+      setSuccess('Call settings saved');
+      setCallSettings(null);
+      await fetchStations(secret);
+    } catch (e) {
+      const err = e as { response?: { data?: { error?: string } } };
+      setError(err.response?.data?.error || 'Error saving call settings');
+      if (err.response?.data?.error === 'Forbidden') {
+        setIsAuthenticated(false);
+        localStorage.removeItem(ADMIN_SECRET_KEY); // Clear stored secret on authentication failure
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateCallSetting = <K extends keyof Omit<CallSettings, 'stationId'>>(key: K, value: CallSettings[K]) => {
+    setCallSettings(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
     // Function to handle managing a station
   const manageStation = (stationId: string, managerId: string | undefined) => {
     if (!managerId) {
@@ -166,18 +252,13 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onSwitchView }) => {
       setError('');
       setSuccess('');
       
-      // Store station ID and manager ID in localStorage
-      localStorage.setItem('personStationId', stationId);
-      localStorage.setItem('personManagerId', managerId);
-      
       // Show success message briefly before switching views
       setSuccess(`Station selected. Switching to management view...`);
       
-      // Switch to the Person view after a brief delay to show the message
+      // Open the station route after a brief delay to show the message;
+      // the manager ID travels in history state rather than the URL
       setTimeout(() => {
-        if (onSwitchView) {
-          onSwitchView('person');
-        }
+        navigate(buildPath({ view: 'person', stationId }), { state: { managerId } });
       }, 500);
     } catch (err) {
       setError('Failed to set station data for management view');
@@ -293,7 +374,17 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onSwitchView }) => {
             <div><b>Manager ID:</b> {result.managerId}</div>
           </div>
         )}
-        <h3 className="admin-stations-title mt-4">Stations</h3>
+        <div className="d-flex justify-content-between align-items-center admin-stations-title mt-4">
+          <h3 className="mb-0">Stations</h3>
+          <button
+            className="btn btn-outline-primary btn-sm"
+            onClick={() => setShowAnalytics(prev => !prev)}
+            aria-expanded={showAnalytics}
+          >
+            {showAnalytics ? 'Hide Analytics' : 'Analytics'}
+          </button>
+        </div>
+        {showAnalytics && <StationAnalytics adminSecret={secret} />}
         <div className="table-responsive">
           <table className="table table-bordered table-striped mt-2">
             <thead>              <tr>
@@ -317,6 +408,20 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onSwitchView }) => {
                       >
                         Manage
                       </button>
+                      <button
+                        className="btn btn-outline-secondary btn-sm"
+                        onClick={() => editCallSettings(station)}
+                        title="Grace period, missed-call policy and announcements"
+                      >
+                        Settings
+                      </button>
+                      <button
+                        className="btn btn-outline-secondary btn-sm"
+                        onClick={() => setPosterStation(station)}
+                        title="Printable QR code poster for joining this station"
+                      >
+                        Poster
+                      </button>
                       <button 
                         className="btn btn-danger btn-sm" 
                         onClick={() => deleteStation(station.id)} 
@@ -331,6 +436,120 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onSwitchView }) => {
             </tbody>
           </table>
         </div>
+        {posterStation && <StationPoster station={posterStation} onClose={() => setPosterStation(null)} />}
+        {callSettings && (
+          <div className="card mt-3 text-start">
+            <div className="card-body">
+              <h4 className="card-title">
+                Call Settings: {stations.find(s => s.id === callSettings.stationId)?.name ?? callSettings.stationId}
+              </h4>
+              <div className="row g-2">
+                <div className="col-12 col-md-6">
+                  <label htmlFor="call-grace-seconds" className="form-label">Grace period (seconds, 0 disables)</label>
+                  <input
+                    id="call-grace-seconds"
+                    type="number"
+                    min={0}
+                    max={3600}
+                    className="form-control"
+                    value={callSettings.callGraceSeconds}
+                    onChange={e => updateCallSetting('callGraceSeconds', parseInt(e.target.value, 10) || 0)}
+                  />
+                </div>
+                <div className="col-12 col-md-6">
+                  <label htmlFor="missed-call-action" className="form-label">When a call is missed</label>
+                  <select
+                    id="missed-call-action"
+                    className="form-select"
+                    value={callSettings.missedCallAction}
+                    onChange={e => updateCallSetting('missedCallAction', e.target.value as MissedCallAction)}
+                  >
+                    <option value="requeue">Push back in the queue</option>
+                    <option value="no_show">Mark as no-show</option>
+                  </select>
+                </div>
+                <div className="col-12 col-md-6">
+                  <label htmlFor="requeue-offset" className="form-label">Places to push back</label>
+                  <input
+                    id="requeue-offset"
+                    type="number"
+                    min={1}
+                    max={50}
+                    className="form-control"
+                    value={callSettings.requeueOffset}
+                    disabled={callSettings.missedCallAction !== 'requeue'}
+                    onChange={e => updateCallSetting('requeueOffset', parseInt(e.target.value, 10) || 1)}
+                  />
+                </div>
+                <div className="col-12 col-md-6">
+                  <label htmlFor="max-recalls" className="form-label">Requeues before no-show</label>
+                  <input
+                    id="max-recalls"
+                    type="number"
+                    min={0}
+                    max={10}
+                    className="form-control"
+                    value={callSettings.maxRecalls}
+                    disabled={callSettings.missedCallAction !== 'requeue'}
+                    onChange={e => updateCallSetting('maxRecalls', parseInt(e.target.value, 10) || 0)}
+                  />
+                </div>
+                <div className="col-12">
+                  <label htmlFor="announcement-template" className="form-label">Display board announcement</label>
+                  <input
+                    id="announcement-template"
+                    className="form-control"
+                    maxLength={200}
+                    value={callSettings.announcementTemplate}
+                    onChange={e => updateCallSetting('announcementTemplate', e.target.value)}
+                  />
+                  <div className="form-text">{'{number}'} and {'{station}'} are replaced with the called ticket and station name.</div>
+                </div>
+                <div className="col-12 col-md-6">
+                  <label htmlFor="announcement-language" className="form-label">Announcement language</label>
+                  <input
+                    id="announcement-language"
+                    className="form-control"
+                    placeholder="en-US"
+                    value={callSettings.announcementLanguage}
+                    onChange={e => updateCallSetting('announcementLanguage', e.target.value)}
+                  />
+                </div>
+                <div className="col-12 col-md-6">
+                  <label htmlFor="announcement-voice" className="form-label">Voice (optional)</label>
+                  <input
+                    id="announcement-voice"
+                    className="form-control"
+                    list="announcement-voices"
+                    placeholder="Display default"
+                    value={callSettings.announcementVoice}
+                    onChange={e => updateCallSetting('announcementVoice', e.target.value)}
+                  />
+                  {speechSupported && (
+                    <datalist id="announcement-voices">
+                      {window.speechSynthesis.getVoices()
+                        .filter(v => v.lang.toLowerCase().startsWith(callSettings.announcementLanguage.split('-')[0].toLowerCase()))
+                        .map(v => <option key={v.name} value={v.name}>{v.lang}</option>)}
+                    </datalist>
+                  )}
+                </div>
+              </div>
+              <div className="d-flex gap-2 mt-3">
+                <button className="btn btn-primary" onClick={saveCallSettings} disabled={loading}>
+                  Save Settings
+                </button>
+                {speechSupported && (
+                  <button className="btn btn-outline-primary" onClick={previewAnnouncement}>
+                    Preview Announcement
+                  </button>
+                )}
+                <button className="btn btn-outline-secondary" onClick={() => setCallSettings(null)} disabled={loading}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
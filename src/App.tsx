@@ -1,8 +1,11 @@
 import { useState, useEffect, useMemo, Suspense, lazy } from 'react';
+import { useRoute, navigate, buildPath, type View } from './hooks/useRoute';
 const UserQueue = lazy(() => import('./UserQueue'));
 const PersonQueue = lazy(() => import('./PersonQueue'));
 const AdminPanel = lazy(() => import('./AdminPanel'));
+const DisplayBoard = lazy(() => import('./DisplayBoard'));
 import { initAbly, addConnectionStateListener, removeConnectionStateListener } from './ablyUtils';
+import { addPollingStatusListener, removePollingStatusListener, type PollingStatus } from './fallbackPolling';
 import './App.css';
 import './ConnectionStatus.css';
 
@@ -36,9 +39,21 @@ const CONNECTION_STATUS_CONFIG = {
 
 type ConnectionState = keyof typeof CONNECTION_STATUS_CONFIG;
 
+// Why polling runs slower or faster than usual
+const POLLING_MODE_HINTS: Record<PollingStatus['mode'], string> = {
+  normal: '',
+  urgent: 'near the front of a queue',
+  hidden: 'page in the background',
+  backoff: 'server not responding',
+};
+
+const goTo = (view: View) => navigate(buildPath({ view }));
+
 function App() {
-  const [view, setView] = useState<'user' | 'person' | 'admin'>('user');
+  const route = useRoute();
+  const { view } = route;
   const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
+  const [pollingStatus, setPollingStatus] = useState<PollingStatus | null>(null);
 
   // Initialize Ably when app starts
   useEffect(() => {
@@ -68,25 +83,51 @@ function App() {
     };
   }, []);
 
+  // Show how often the fallback pollers refresh while real-time is down
+  useEffect(() => {
+    addPollingStatusListener(setPollingStatus);
+    return () => {
+      removePollingStatusListener(setPollingStatus);
+    };
+  }, []);
+
   // Memoize connection status configuration to prevent unnecessary re-renders
   const connectionStatusInfo = useMemo(() => {
     return CONNECTION_STATUS_CONFIG[connectionState] || CONNECTION_STATUS_CONFIG.disconnected;
   }, [connectionState]);
 
+  // Move boards bookmarked as ?view=board onto /board, keeping their settings
+  useEffect(() => {
+    if (view !== 'board' || window.location.pathname === '/board') return;
+    const params = new URLSearchParams(window.location.search);
+    params.delete('view');
+    const query = params.toString();
+    navigate(`/board${query ? `?${query}` : ''}`, { replace: true });
+  }, [view]);
+
+  if (view === 'board') {
+    return (
+      <Suspense fallback={<div>Loading...</div>}>
+        <DisplayBoard onExit={() => goTo('user')} />
+      </Suspense>
+    );
+  }
+
   return (
     <div className="App app-outer-center">
       <div className="app-center">
         <h1 className="text-center py-3">Station Queue Management</h1>
         <nav className="d-flex flex-wrap justify-content-center mb-4 gap-2">
-          <button type="button" className={`btn btn-outline-primary${view === 'user' ? ' active' : ''}`} onClick={() => setView('user')}>User</button>
-          <button type="button" className={`btn btn-outline-primary${view === 'person' ? ' active' : ''}`} onClick={() => setView('person')}>Station</button>
-          <button type="button" className={`btn btn-outline-primary${view === 'admin' ? ' active' : ''}`} onClick={() => setView('admin')}>Admin</button>
+          <button type="button" className={`btn btn-outline-primary${view === 'user' ? ' active' : ''}`} onClick={() => goTo('user')}>User</button>
+          <button type="button" className={`btn btn-outline-primary${view === 'person' ? ' active' : ''}`} onClick={() => goTo('person')}>Station</button>
+          <button type="button" className={`btn btn-outline-primary${view === 'admin' ? ' active' : ''}`} onClick={() => goTo('admin')}>Admin</button>
+          <button type="button" className="btn btn-outline-primary" onClick={() => goTo('board')}>Board</button>
         </nav>
         <div className="w-100">
           <Suspense fallback={<div>Loading...</div>}>
-            {view === 'user' && <UserQueue />}
-            {view === 'person' && <PersonQueue onSwitchView={setView} />}
-            {view === 'admin' && <AdminPanel onSwitchView={setView} />}
+            {route.view === 'user' && <UserQueue joinStationId={route.joinStationId} />}
+            {route.view === 'person' && <PersonQueue routeStationId={route.stationId} />}
+            {route.view === 'admin' && <AdminPanel />}
           </Suspense>
         </div>
       </div>
@@ -106,6 +147,14 @@ function App() {
             <span aria-hidden="true">{connectionStatusInfo.icon}</span>
             <span className="ms-1">{connectionStatusInfo.text}</span>
           </span>
+          {pollingStatus && (
+            <span
+              className="badge bg-secondary connection-status ms-2"
+              title={POLLING_MODE_HINTS[pollingStatus.mode] || undefined}
+            >
+              Polling every {Math.round(pollingStatus.intervalMs / 1000)}s
+            </span>
+          )}
         </div>
       </output>
     </div>
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import api from './api';
+
+interface ClaimCodePanelProps {
+  /** Whether this device holds tickets; the code is only shown alongside them */
+  hasTickets: boolean;
+  /** Reload the ticket list after tickets were moved here */
+  onClaimed: () => void;
+}
+
+// Codes are stored without the dash; it is only there to make them easier to read out
+const formatClaimCode = (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`;
+
+interface ClaimCode {
+  code: string;
+  /** ISO timestamp after which the server issues a new code */
+  expiresAt: string;
+}
+
+const ClaimCodePanel: React.FC<ClaimCodePanelProps> = ({ hasTickets, onClaimed }) => {
+  const [claimCode, setClaimCode] = useState<ClaimCode | null>(null);
+  const [codeInput, setCodeInput] = useState('');
+  const [claiming, setClaiming] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; msg: string } | null>(null);
+  // Bumped to fetch the code again: after a claim the tickets belong to this device's code,
+  // which may be new, and an expired code is replaced by a new one
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    if (!hasTickets) {
+      setClaimCode(null);
+      return;
+    }
+    let cancelled = false;
+    api.get<ClaimCode>('/claim-code')
+      .then(res => {
+        if (!cancelled) setClaimCode(res.data);
+      })
+      .catch(error => {
+        console.error('Error fetching claim code:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [hasTickets, refreshCount]);
+
+  useEffect(() => {
+    if (!claimCode) return;
+    const timer = setTimeout(() => setRefreshCount(count => count + 1), Math.max(new Date(claimCode.expiresAt).getTime() - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [claimCode]);
+
+  const claimTickets = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setClaiming(true);
+    setResult(null);
+    try {
+      const res = await api.post<{ claimed: number }>('/claim-code/redeem', { code: codeInput });
+      const { claimed } = res.data;
+      setResult({
+        ok: true,
+        msg: claimed > 0
+          ? `Moved ${claimed} ticket${claimed === 1 ? '' : 's'} to this device.`
+          : 'The code was valid, but it had no active tickets to move.'
+      });
+      setCodeInput('');
+      setRefreshCount(count => count + 1);
+      onClaimed();
+    } catch (error) {
+      console.error('Error claiming tickets:', error);
+      const err = error as { response?: { data?: { error?: string } } };
+      setResult({ ok: false, msg: err.response?.data?.error ?? 'Could not claim the tickets. Please try again.' });
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  return (
+    <>
+      {hasTickets && claimCode && (
+        <div className="alert alert-secondary mt-3 mb-0 py-2">
+          Your claim code: <strong className="font-monospace">{formatClaimCode(claimCode.code)}</strong>
+          <div className="small text-muted">
+            Switching phones or clearing your browser? Enter this code on the other device to take your tickets with you.
+            It works until {new Date(claimCode.expiresAt).toLocaleString()}.
+          </div>
+        </div>
+      )}
+
+      <details className="mt-3">
+        <summary>📱 Move my tickets from another device</summary>
+        <form className="mt-2" onSubmit={claimTickets}>
+          <label htmlFor="claim-code" className="form-label small">
+            Claim code shown with your tickets on the other device
+          </label>
+          <div className="input-group">
+            <input
+              id="claim-code"
+              className="form-control font-monospace text-uppercase"
+              value={codeInput}
+              onChange={e => setCodeInput(e.target.value)}
+              placeholder="ABCD-EFGH"
+              autoComplete="off"
+              maxLength={12}
+            />
+            <button type="submit" className="btn btn-outline-primary" disabled={claiming || !codeInput.trim()}>
+              {claiming ? 'Claiming...' : 'Claim Tickets'}
+            </button>
+          </div>
+          {result && (
+            <div className={`alert ${result.ok ? 'alert-success' : 'alert-danger'} mt-2 mb-0 py-2`} role="status">
+              {result.msg}
+            </div>
+          )}
+        </form>
+      </details>
+    </>
+  );
+};
+
+export default ClaimCodePanel;
@@ -0,0 +1,334 @@
+import 'bootstrap/dist/css/bootstrap.min.css';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import api from './api';
+import {
+  subscribeToChannel,
+  subscribeToBoardUpdates,
+  addConnectionStateListener,
+  removeConnectionStateListener,
+  CHANNEL_NAMES,
+  EVENT_NAMES
+} from './ablyUtils';
+import { createQueuePoller, POLLING_INTERVALS } from './fallbackPolling';
+import { useAnnouncer, formatAnnouncement } from './hooks/useAnnouncer';
+import { navigate } from './hooks/useRoute';
+import { useResyncOnReconnect } from './hooks/useResyncOnReconnect';
+import { applyQueuePop, checkSequence, isSnapshotCurrent, validateQueuePopEvent } from './utils/queueUtils';
+import { DEFAULT_ANNOUNCEMENT, STORAGE_KEYS } from './constants/queue.constants';
+import type { AnnouncementSettings, BoardQueueEntry, QueueSnapshot } from './types/queue.types';
+
+interface Station { id: string; name: string; }
+
+interface BoardConfig {
+  stationIds: string[];
+  nextCount: number;
+  title: string;
+}
+
+const DEFAULT_NEXT_COUNT = 3;
+const MAX_NEXT_COUNT = 10;
+
+// Each TV is configured through its URL, e.g. /board?stations=<id>,<id>&next=5&title=Lobby
+const readBoardConfig = (search: string): BoardConfig => {
+  const params = new URLSearchParams(search);
+  const next = parseInt(params.get('next') ?? '', 10);
+  return {
+    stationIds: (params.get('stations') ?? '').split(',').map(id => id.trim()).filter(Boolean),
+    nextCount: Number.isNaN(next) ? DEFAULT_NEXT_COUNT : Math.min(Math.max(next, 1), MAX_NEXT_COUNT),
+    title: params.get('title') ?? 'Now Serving',
+  };
+};
+
+const writeBoardConfig = (config: BoardConfig) => {
+  const params = new URLSearchParams(window.location.search);
+  params.delete('view');
+  params.set('stations', config.stationIds.join(','));
+  params.set('next', String(config.nextCount));
+  navigate(`/board?${params.toString()}`, { replace: true });
+};
+
+// Keep only the ticket number and status, in case a payload ever carries more than the board needs
+const toBoardSnapshot = (data: unknown): QueueSnapshot<BoardQueueEntry> | null => {
+  if (!data || typeof data !== 'object' || !('queue' in data) || !Array.isArray(data.queue)) return null;
+  const seq = 'seq' in data && typeof data.seq === 'number' ? data.seq : null;
+  const queue = data.queue
+    .filter((entry: unknown): entry is BoardQueueEntry =>
+      typeof entry === 'object' && entry !== null && typeof (entry as BoardQueueEntry).position === 'number')
+    .map(({ position, status }: BoardQueueEntry) => ({ position, status }));
+  return { queue, seq };
+};
+
+interface BoardStationProps {
+  stationId: string;
+  nextCount: number;
+  live: boolean;
+  onCall: (position: number, stationName: string, announcement: AnnouncementSettings) => void;
+}
+
+const BoardStation: React.FC<BoardStationProps> = ({ stationId, nextCount, live, onCall }) => {
+  const [stationName, setStationName] = useState('');
+  const [queue, setQueue] = useState<BoardQueueEntry[]>([]);
+  const [missing, setMissing] = useState(false);
+  // Sequence number of the station change the board reflects
+  const lastSeqRef = useRef<number | null>(null);
+  // Latest values for the call subscription, which lives as long as the station is shown
+  const callContextRef = useRef({ stationName, announcement: DEFAULT_ANNOUNCEMENT as AnnouncementSettings, onCall });
+  callContextRef.current.stationName = stationName;
+  callContextRef.current.onCall = onCall;
+
+  // Full snapshots, loaded or polled, replace the queue unless a newer message was already applied
+  const applySnapshot = useCallback((data: unknown) => {
+    const snapshot = toBoardSnapshot(data);
+    if (!snapshot || !isSnapshotCurrent(lastSeqRef.current, snapshot.seq)) return;
+    if (typeof snapshot.seq === 'number') lastSeqRef.current = snapshot.seq;
+    setQueue(snapshot.queue);
+  }, []);
+
+  const loadBoard = useCallback(() => {
+    api.get<{ stationName: string; announcement?: AnnouncementSettings }>(`/queue/${stationId}/board`)
+      .then(res => {
+        setStationName(res.data.stationName);
+        callContextRef.current.announcement = res.data.announcement ?? DEFAULT_ANNOUNCEMENT;
+        applySnapshot(res.data);
+      })
+      .catch(e => {
+        const err = e as { response?: { status?: number } };
+        if (err.response?.status === 404) setMissing(true);
+      });
+  }, [stationId, applySnapshot]);
+
+  useEffect(() => {
+    lastSeqRef.current = null;
+    loadBoard();
+  }, [loadBoard]);
+
+  useResyncOnReconnect(loadBoard);
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    const subscribe = async () => {
+      unsubscribe = await subscribeToBoardUpdates(stationId, (data: unknown) => {
+        const snapshot = toBoardSnapshot(data);
+        if (!snapshot) return;
+        const check = checkSequence(lastSeqRef.current, snapshot.seq);
+        if (check === 'gap') {
+          loadBoard();
+        } else if (check === 'apply') {
+          if (typeof snapshot.seq === 'number') lastSeqRef.current = snapshot.seq;
+          setQueue(snapshot.queue);
+        }
+      });
+    };
+    subscribe();
+    return () => unsubscribe?.();
+  }, [stationId, loadBoard]);
+
+  // Pops arrive as a delta rather than a full queue; every call is announced once
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    const subscribe = async () => {
+      unsubscribe = await subscribeToChannel(CHANNEL_NAMES.BOARD(stationId), EVENT_NAMES.QUEUE_POP, (data: unknown) => {
+        if (!validateQueuePopEvent(data)) return;
+        const check = checkSequence(lastSeqRef.current, data.seq);
+        if (check === 'stale') return;
+        if (check === 'gap') {
+          loadBoard();
+        } else {
+          if (typeof data.seq === 'number') lastSeqRef.current = data.seq;
+          setQueue(current => applyQueuePop(current, data));
+        }
+        const { stationName: name, announcement, onCall: announceCall } = callContextRef.current;
+        if (name) announceCall(data.position, name, announcement);
+      });
+    };
+    subscribe();
+    return () => unsubscribe?.();
+  }, [stationId, loadBoard]);
+
+  // Poll only while the real-time connection is down
+  useEffect(() => {
+    if (live) return;
+    const poller = createQueuePoller<BoardQueueEntry>(stationId, null, applySnapshot);
+    poller.start(POLLING_INTERVALS.NORMAL);
+    return () => poller.stop();
+  }, [stationId, live, applySnapshot]);
+
+  if (missing) return null;
+
+  const nowServing = queue.filter(q => q.status === 'called' || q.status === 'serving');
+  const upNext = queue.filter(q => !q.status || q.status === 'waiting').slice(0, nextCount);
+
+  return (
+    <section className="display-board-station" aria-label={stationName || 'Station'}>
+      <h2 className="display-board-station-name">{stationName}</h2>
+      <div className="display-board-label">Now serving</div>
+      <div className="display-board-now">
+        {nowServing.length === 0 ? (
+          <span className="display-board-idle">—</span>
+        ) : (
+          nowServing.map(q => (
+            <span key={q.position} className={q.status === 'called' ? 'display-board-called' : undefined}>
+              {q.position}
+            </span>
+          ))
+        )}
+      </div>
+      <div className="display-board-label">Next</div>
+      <div className="display-board-next">
+        {upNext.length === 0 ? <span className="display-board-idle">No one waiting</span> : upNext.map(q => q.position).join('  ·  ')}
+      </div>
+    </section>
+  );
+};
+
+const BoardSetup: React.FC<{ initial: BoardConfig; onOpen: (config: BoardConfig) => void; onExit?: () => void }> = ({ initial, onOpen, onExit }) => {
+  const [stations, setStations] = useState<Station[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>(initial.stationIds);
+  const [nextCount, setNextCount] = useState(initial.nextCount);
+
+  useEffect(() => {
+    api.get<Station[]>('/stations')
+      .then(res => setStations(Array.isArray(res.data) ? res.data.map(({ id, name }) => ({ id, name })) : []))
+      .catch(() => setStations([]));
+  }, []);
+
+  const toggleStation = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+  };
+
+  return (
+    <div className="container py-4 text-start">
+      <h2 className="mb-3">Display Board Setup</h2>
+      <p className="text-muted">Choose the stations for this screen. The board address can then be bookmarked on the TV.</p>
+      {stations.map(station => (
+        <div className="form-check" key={station.id}>
+          <input
+            className="form-check-input"
+            type="checkbox"
+            id={`board-station-${station.id}`}
+            checked={selectedIds.includes(station.id)}
+            onChange={() => toggleStation(station.id)}
+          />
+          <label className="form-check-label" htmlFor={`board-station-${station.id}`}>{station.name}</label>
+        </div>
+      ))}
+      <div className="mt-3" style={{ maxWidth: '12rem' }}>
+        <label htmlFor="board-next-count" className="form-label">Upcoming numbers to show</label>
+        <input
+          id="board-next-count"
+          type="number"
+          min={1}
+          max={MAX_NEXT_COUNT}
+          className="form-control"
+          value={nextCount}
+          onChange={e => setNextCount(Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), MAX_NEXT_COUNT))}
+        />
+      </div>
+      <div className="d-flex gap-2 mt-3">
+        <button
+          className="btn btn-primary"
+          disabled={selectedIds.length === 0}
+          onClick={() => onOpen({ ...initial, stationIds: selectedIds, nextCount })}
+        >
+          Open Board
+        </button>
+        {onExit && (
+          <button className="btn btn-outline-secondary" onClick={onExit}>Back</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface DisplayBoardProps {
+  onExit?: () => void;
+}
+
+const DisplayBoard: React.FC<DisplayBoardProps> = ({ onExit }) => {
+  const [config, setConfig] = useState<BoardConfig>(() => readBoardConfig(window.location.search));
+  const [live, setLive] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  const [announcementsOn, setAnnouncementsOn] = useState(
+    () => localStorage.getItem(STORAGE_KEYS.boardAnnouncements) === 'on'
+  );
+  const { announce, cancel, supported: speechSupported } = useAnnouncer();
+
+  const toggleAnnouncements = () => {
+    const enabled = !announcementsOn;
+    setAnnouncementsOn(enabled);
+    localStorage.setItem(STORAGE_KEYS.boardAnnouncements, enabled ? 'on' : 'off');
+    if (enabled) {
+      // Browsers only allow speech after a user gesture, so speak once right away
+      announce({ text: 'Announcements on' });
+    } else {
+      cancel();
+    }
+  };
+
+  const handleCall = useCallback((position: number, stationName: string, announcement: AnnouncementSettings) => {
+    if (!announcementsOn) return;
+    announce({
+      text: formatAnnouncement(announcement.template, { number: position, station: stationName }),
+      language: announcement.language,
+      voice: announcement.voice,
+    });
+  }, [announcementsOn, announce]);
+
+  useEffect(() => {
+    const listener = (state: string) => setLive(state === 'connected');
+    addConnectionStateListener(listener);
+    return () => removeConnectionStateListener(listener);
+  }, []);
+
+  useEffect(() => {
+    const clock = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(clock);
+  }, []);
+
+  if (config.stationIds.length === 0) {
+    return (
+      <BoardSetup
+        initial={config}
+        onExit={onExit}
+        onOpen={next => {
+          writeBoardConfig(next);
+          setConfig(next);
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="display-board">
+      <header className="display-board-header">
+        <h1>{config.title}</h1>
+        <div className="d-flex align-items-center gap-3">
+          {speechSupported && (
+            <button
+              type="button"
+              className="btn btn-outline-light btn-sm"
+              onClick={toggleAnnouncements}
+              aria-pressed={announcementsOn}
+            >
+              {announcementsOn ? '🔊 Announcements on' : '🔈 Announcements off'}
+            </button>
+          )}
+          <time dateTime={now.toISOString()}>{now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</time>
+        </div>
+      </header>
+      <div className="display-board-grid">
+        {config.stationIds.map(stationId => (
+          <BoardStation
+            key={stationId}
+            stationId={stationId}
+            nextCount={config.nextCount}
+            live={live}
+            onCall={handleCall}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DisplayBoard;
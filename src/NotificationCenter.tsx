@@ -0,0 +1,251 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { NotificationEntry, NotificationType } from './types/queue.types';
+import { NOTIFICATIONS_PAGE_SIZE, NOTIFICATION_TYPE_LABELS } from './constants/queue.constants';
+import { getNotificationIcon } from './utils/queueUtils';
+
+interface NotificationCenterProps {
+  notifications: NotificationEntry[];
+  showDropdown: boolean;
+  bellAnimate: boolean;
+  onToggle: () => void;
+  onClose: () => void;
+  onClear: () => void;
+  onMarkRead: (id: string) => void;
+  onMarkAllRead: () => void;
+  onDismiss: (id: string) => void;
+  onAnimationEnd: () => void;
+}
+
+const NotificationContent: React.FC<{ notification: NotificationEntry }> = ({ notification }) => {
+  // Extract notification message logic to avoid nested ternary
+  const renderNotificationMessage = () => {
+    if (notification.type === 'removed') {
+      return (
+        <>
+          Removed from <b>{notification.station}</b> queue
+          {typeof notification.prevQueueNumber === 'number' && (
+            <> (# <b>{notification.prevQueueNumber}</b>)</>
+          )}
+          .
+        </>
+      );
+    }
+
+    if (notification.type === 'error' || notification.type === 'recall') {
+      return <>{notification.msg}</>;
+    }
+
+    // "Only 2 people ahead of you": the threshold alert says more than a bare position
+    if (notification.escalate && notification.type === 'position') {
+      return <>{notification.msg}</>;
+    }
+
+    if (notification.type === 'called') {
+      return (
+        <>
+          You are being called at <b>{notification.station}</b> (# <b>{notification.queueNumber}</b>).
+        </>
+      );
+    }
+
+    // Default case for position change notifications
+    return (
+      <>
+        Position in <b>{notification.station}</b> changed to{' '}
+        <b>{notification.queueNumber}</b>.
+      </>
+    );
+  };
+
+  return (
+    <span>
+      {renderNotificationMessage()}
+      <br />
+      <span className="notification-time">
+        {notification.ts ? new Date(notification.ts).toLocaleString() : ''}
+      </span>
+    </span>
+  );
+};
+
+const NotificationPanel: React.FC<Omit<NotificationCenterProps, 'showDropdown' | 'bellAnimate' | 'onToggle' | 'onClose' | 'onAnimationEnd'>> = ({
+  notifications,
+  onClear,
+  onMarkRead,
+  onMarkAllRead,
+  onDismiss,
+}) => {
+  const [typeFilter, setTypeFilter] = useState<NotificationType | ''>('');
+  const [stationFilter, setStationFilter] = useState('');
+  const [visibleCount, setVisibleCount] = useState(NOTIFICATIONS_PAGE_SIZE);
+
+  const stations = useMemo(
+    () => [...new Set(notifications.map(n => n.station))].sort(),
+    [notifications]
+  );
+  const filtered = useMemo(
+    () => notifications.filter(n =>
+      (!typeFilter || n.type === typeFilter) && (!stationFilter || n.station === stationFilter)
+    ),
+    [notifications, typeFilter, stationFilter]
+  );
+  const hasUnread = notifications.some(n => !n.read);
+
+  // A new filter starts again from the first page
+  useEffect(() => {
+    setVisibleCount(NOTIFICATIONS_PAGE_SIZE);
+  }, [typeFilter, stationFilter]);
+
+  return (
+    <div className="notification-dropdown" role="dialog" aria-label="Notification center">
+      {notifications.length > 0 && (
+        <div className="notification-filters">
+          <select
+            className="form-select form-select-sm"
+            value={typeFilter}
+            onChange={e => setTypeFilter(e.target.value as NotificationType | '')}
+            aria-label="Filter by type"
+          >
+            <option value="">All types</option>
+            {(Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map(type => (
+              <option key={type} value={type}>{NOTIFICATION_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <select
+            className="form-select form-select-sm"
+            value={stationFilter}
+            onChange={e => setStationFilter(e.target.value)}
+            aria-label="Filter by station"
+          >
+            <option value="">All stations</option>
+            {stations.map(station => (
+              <option key={station} value={station}>{station}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      <ul>
+        {filtered.length === 0 ? (
+          <li>{notifications.length === 0 ? 'No notifications' : 'No notifications match these filters'}</li>
+        ) : (
+          filtered.slice(0, visibleCount).map(n => (
+            <li
+              key={n.id}
+              className={`notification-list-item${n.read ? '' : ' notification-unread'}`}
+              onClick={() => !n.read && onMarkRead(n.id)}
+            >
+              <span className="notification-icon">
+                {getNotificationIcon(n.type)}
+              </span>
+              <NotificationContent notification={n} />
+              <button
+                type="button"
+                className="btn-close notification-dismiss"
+                onClick={e => {
+                  e.stopPropagation();
+                  onDismiss(n.id);
+                }}
+                aria-label="Dismiss notification"
+              />
+            </li>
+          ))
+        )}
+      </ul>
+      {filtered.length > visibleCount && (
+        <div className="text-center">
+          <button
+            type="button"
+            className="btn btn-sm btn-link"
+            onClick={() => setVisibleCount(count => count + NOTIFICATIONS_PAGE_SIZE)}
+          >
+            Show older ({filtered.length - visibleCount} more)
+          </button>
+        </div>
+      )}
+      <div className="notification-dropdown-footer">
+        <button
+          type="button"
+          className="btn btn-sm btn-outline-primary me-2"
+          onClick={onMarkAllRead}
+          disabled={!hasUnread}
+        >
+          Mark all read
+        </button>
+        <button
+          type="button"
+          className="btn btn-sm btn-outline-secondary"
+          onClick={onClear}
+        >
+          Clear All
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const NotificationCenter: React.FC<NotificationCenterProps> = ({
+  notifications,
+  showDropdown,
+  bellAnimate,
+  onToggle,
+  onClose,
+  onAnimationEnd,
+  ...panelProps
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const unreadCount = notifications.filter(n => !n.read).length;
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onToggle();
+    }
+  }, [onToggle]);
+
+  // Close on a click or tap outside, or on Escape; the filters inside keep it open
+  useEffect(() => {
+    if (!showDropdown) return;
+    const handlePointerDown = (e: MouseEvent | TouchEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) onClose();
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('touchstart', handlePointerDown);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('touchstart', handlePointerDown);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [showDropdown, onClose]);
+
+  return (
+    <div className="notification-bell-container" ref={containerRef}>
+      <button
+        className="notification-bell"
+        type="button"
+        onClick={onToggle}
+        onKeyDown={handleKeyDown}
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        aria-expanded={showDropdown}
+        aria-haspopup="true"
+      >
+        <span
+          className={bellAnimate ? 'bell-animate' : ''}
+          onAnimationEnd={onAnimationEnd}
+          aria-hidden="true"
+        >
+          🔔
+        </span>
+        {unreadCount > 0 && (
+          <span className="notification-badge">{unreadCount}</span>
+        )}
+      </button>
+      {showDropdown && <NotificationPanel notifications={notifications} {...panelProps} />}
+    </div>
+  );
+};
+
+export default NotificationCenter;
@@ -1,23 +1,37 @@
 import 'bootstrap/dist/css/bootstrap.min.css';
 import './ConnectionStatus.css';
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import api from './api';
-import { initAbly, subscribeToQueueUpdates } from './ablyUtils';
+import { initAbly, subscribeToQueueUpdates, grantStationAccess } from './ablyUtils';
+import type { QueueSnapshot, StationQueueEntry } from './types/queue.types';
+import { UI_CONSTANTS } from './constants/queue.constants';
+import { buildPath, getHistoryState, navigate } from './hooks/useRoute';
+import { useResyncOnReconnect } from './hooks/useResyncOnReconnect';
+import { checkSequence, isSnapshotCurrent } from './utils/queueUtils';
 
 interface Station { id: string; name: string; }
 
+type TicketAction = 'serve' | 'complete' | 'no-show';
+
 interface PersonQueueProps {
-  onSwitchView?: (view: 'user' | 'person' | 'admin') => void;
+  /** Station from the /station/:stationId route */
+  routeStationId?: string;
 }
 
-const PersonQueue: React.FC<PersonQueueProps> = () => {
-  const [stationId, setStationId] = useState(() => localStorage.getItem('personStationId') ?? '');
-  const [managerId, setManagerId] = useState(() => localStorage.getItem('personManagerId') ?? '');
-  const [queue, setQueue] = useState<{ user_id: string; position: number }[]>([]);
+const PersonQueue: React.FC<PersonQueueProps> = ({ routeStationId }) => {
+  const [stationId, setStationId] = useState(() => routeStationId ?? localStorage.getItem('personStationId') ?? '');
+  // The admin panel hands the managerId over in history state, so it never shows up in the URL
+  const [managerId, setManagerId] = useState(
+    () => getHistoryState<string>('managerId') ?? localStorage.getItem('personManagerId') ?? ''
+  );
+  const [queue, setQueue] = useState<StationQueueEntry[]>([]);
   const [error, setError] = useState('');
+  const [conflict, setConflict] = useState('');
   const [loading, setLoading] = useState(false);
-  const [popped, setPopped] = useState<string | null>(null);
+  const [calledNumber, setCalledNumber] = useState<number | null>(null);
   const [stations, setStations] = useState<Station[]>([]);
+  // Sequence number of the station change the queue on screen reflects
+  const lastSeqRef = useRef<number | null>(null);
   
   // Initialize Ably
   useEffect(() => {
@@ -44,13 +58,19 @@ const PersonQueue: React.FC<PersonQueueProps> = () => {
     }
   }, []);
 
+  const applySnapshot = useCallback((snapshot: QueueSnapshot<StationQueueEntry>) => {
+    if (!isSnapshotCurrent(lastSeqRef.current, snapshot.seq)) return;
+    if (typeof snapshot.seq === 'number') lastSeqRef.current = snapshot.seq;
+    setQueue(snapshot.queue);
+  }, []);
+
   const fetchQueue = useCallback(async () => {
     setError('');
-    setPopped(null);
+    setCalledNumber(null);
     setLoading(true);
     try {
-      const res = await api.get<{ queue: { user_id: string; position: number }[] }>(`/queue/${stationId}?managerId=${managerId}`);
-      setQueue(res.data.queue);
+      const res = await api.get<QueueSnapshot<StationQueueEntry>>(`/queue/${stationId}?managerId=${managerId}`);
+      applySnapshot(res.data);
     } catch (e) {
       const err = e as { response?: { data?: { error?: string } } };
       setError(err.response?.data?.error ?? 'Error fetching queue');
@@ -58,25 +78,63 @@ const PersonQueue: React.FC<PersonQueueProps> = () => {
     } finally {
       setLoading(false);
     }
-  }, [stationId, managerId]);
+  }, [stationId, managerId, applySnapshot]);
+
+  // Reload the queue without touching the rest of the screen
+  const resyncQueue = useCallback(() => {
+    api.get<QueueSnapshot<StationQueueEntry>>(`/queue/${stationId}?managerId=${managerId}`)
+      .then(res => applySnapshot(res.data))
+      .catch(error => console.error('PersonQueue: Error refreshing queue:', error));
+  }, [stationId, managerId, applySnapshot]);
+
+  useResyncOnReconnect(() => {
+    if (stationId && managerId) resyncQueue();
+  });
 
   const popQueue = async () => {
     setError('');
+    setConflict('');
     setLoading(true);
     try {
-      const res = await api.post<{ popped: string | null }>(`/queue/${stationId}/pop`, { managerId });
-      setPopped(res.data.popped);
+      const res = await api.post<{ popped: string | null; position?: number }>(`/queue/${stationId}/pop`, { managerId });
       // No need to fetch queue manually, Ably will update it
       // But we'll do it once to ensure UI is updated immediately
       await fetchQueue();
+      // Set after the refetch, which clears the previous call
+      setCalledNumber(res.data.popped ? res.data.position ?? null : null);
+    } catch (e) {
+      const err = e as { response?: { status?: number; data?: { error?: string } } };
+      if (err.response?.status === 409) {
+        // Another counter called this ticket first; show the fresh queue so the manager can try again
+        await fetchQueue();
+        setConflict(err.response.data?.error ?? 'Another counter called this ticket first. Please try again.');
+      } else {
+        setError(err.response?.data?.error ?? 'Error popping queue');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateTicket = async (position: number, action: TicketAction) => {
+    setError('');
+    setLoading(true);
+    try {
+      await api.post(`/queue/${stationId}/tickets/${position}/${action}`, { managerId });
+      await fetchQueue();
     } catch (e) {
       const err = e as { response?: { data?: { error?: string } } };
-      setError(err.response?.data?.error ?? 'Error popping queue');
+      setError(err.response?.data?.error ?? 'Error updating ticket');
     } finally {
       setLoading(false);
     }
   };
 
+  // A different station has its own sequence
+  useEffect(() => {
+    lastSeqRef.current = null;
+  }, [stationId]);
+
   useEffect(() => {
     if (stationId && managerId) {
       fetchQueue();
@@ -95,6 +153,19 @@ const PersonQueue: React.FC<PersonQueueProps> = () => {
     localStorage.setItem('personStationId', stationId);
   }, [stationId]);
 
+  // Follow the route when it changes, e.g. on back/forward
+  useEffect(() => {
+    if (routeStationId !== undefined) setStationId(routeStationId);
+  }, [routeStationId]);
+
+  // Keep the address bookmarkable as the station changes
+  useEffect(() => {
+    const path = buildPath({ view: 'person', stationId: stationId || undefined });
+    if (window.location.pathname !== path) {
+      navigate(path, { replace: true, state: window.history.state });
+    }
+  }, [stationId]);
+
   useEffect(() => {
     localStorage.setItem('personManagerId', managerId);
   }, [managerId]);
@@ -107,23 +178,36 @@ const PersonQueue: React.FC<PersonQueueProps> = () => {
     // Subscribe to queue updates for this station
     const subscribe = async () => {
       try {
+        // The station channel carries user ids, so the token must first be granted access to it
+        await grantStationAccess(stationId, managerId);
         unsubscribe = await subscribeToQueueUpdates(stationId, (data: unknown) => {
           try {
             console.log('PersonQueue: Received queue update via Ably:', data);
             
             // Type guard to ensure we have the expected data structure
             if (data && typeof data === 'object' && 'queue' in data) {
-              const queueData = data as { queue?: { user_id: string; position: number }[] };
+              const queueData = data as Partial<QueueSnapshot<StationQueueEntry>>;
               if (Array.isArray(queueData.queue)) {
                 // Validate each queue item has the expected structure
                 const validData = queueData.queue.every(item => 
                   'user_id' in item && 'position' in item
                 );
                 
-                if (validData) {
-                  setQueue(queueData.queue);
-                } else {
+                if (!validData) {
                   console.error('PersonQueue: Received queue items with invalid structure:', queueData.queue);
+                  return;
+                }
+
+                const check = checkSequence(lastSeqRef.current, queueData.seq);
+                if (check === 'stale') {
+                  console.log(`PersonQueue: Ignoring out-of-date update #${queueData.seq}`);
+                } else if (check === 'gap') {
+                  // Something was missed; the snapshot covers it and this update too
+                  console.warn(`PersonQueue: Missed updates before #${queueData.seq}, resyncing`);
+                  resyncQueue();
+                } else {
+                  if (typeof queueData.seq === 'number') lastSeqRef.current = queueData.seq;
+                  setQueue(queueData.queue);
                 }
               } else {
                 console.error('PersonQueue: Queue is not an array:', queueData);
@@ -144,10 +228,24 @@ const PersonQueue: React.FC<PersonQueueProps> = () => {
     return () => {
       if (unsubscribe) unsubscribe();
     };
-  }, [stationId, managerId]);
+  }, [stationId, managerId, resyncQueue]);
+
+
+  // Reading the queue is what applies the missed-call policy on the server,
+  // so keep refreshing quietly while a call is still waiting for acknowledgement
+  const hasPendingCall = queue.some(t => t.status === 'called' && !t.acknowledged);
+  useEffect(() => {
+    if (!stationId || !managerId || !hasPendingCall) return;
 
+    const interval = setInterval(resyncQueue, UI_CONSTANTS.missedCallCheckInterval);
+
+    return () => clearInterval(interval);
+  }, [stationId, managerId, hasPendingCall, resyncQueue]);
 
   const stationName = stationId && stations.length > 0 ? (stations.find(s => s.id === stationId)?.name ?? '') : '';
+  // Tickets without a status come from older payloads and are still waiting
+  const atCounter = queue.filter(t => t.status === 'called' || t.status === 'serving');
+  const waiting = queue.filter(t => !t.status || t.status === 'waiting');
 
   return (
     <div className="person-queue app-center">
@@ -183,25 +281,60 @@ const PersonQueue: React.FC<PersonQueueProps> = () => {
           {loading ? 'Loading...' : 'View Queue'}
         </button>
         {error && <div className="alert alert-danger mt-2">{error}</div>}
-        {queue.length > 0 && (
+        {conflict && <div className="alert alert-warning mt-2" role="status">{conflict}</div>}
+        {atCounter.length > 0 && (
+          <div className="mb-3">
+            <h3>At the Counter</h3>
+            <ul className="list-group mb-3">
+              {atCounter.map(ticket => (
+                <li className="list-group-item d-flex justify-content-between align-items-center flex-wrap gap-2" key={ticket.position}>
+                  <span>
+                    # <b>{ticket.position}</b>{' '}
+                    <span className={`badge ${ticket.status === 'called' ? 'bg-warning text-dark' : 'bg-primary'}`}>
+                      {ticket.status === 'called' ? 'Called' : 'Serving'}
+                    </span>
+                    {ticket.status === 'called' && ticket.acknowledged && (
+                      <span className="badge bg-info text-dark ms-1">On the way</span>
+                    )}
+                  </span>
+                  <span className="d-flex gap-2">
+                    {ticket.status === 'called' && (
+                      <button className="btn btn-sm btn-primary" onClick={() => updateTicket(ticket.position, 'serve')} disabled={loading}>
+                        Arrived
+                      </button>
+                    )}
+                    <button className="btn btn-sm btn-success" onClick={() => updateTicket(ticket.position, 'complete')} disabled={loading}>
+                      Complete
+                    </button>
+                    {ticket.status === 'called' && (
+                      <button className="btn btn-sm btn-outline-danger" onClick={() => updateTicket(ticket.position, 'no-show')} disabled={loading}>
+                        No-show
+                      </button>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {waiting.length > 0 && (
           <div>
-            <h3>Queue</h3>            {queue[0] && (
-              <div className="mb-3 text-center">
-                <span className="badge bg-success fs-5">
-                  Front of Queue: # {queue[0].position}
-                </span>
-              </div>
-            )}
+            <h3>Queue</h3>
+            <div className="mb-3 text-center">
+              <span className="badge bg-success fs-5">
+                Front of Queue: # {waiting[0].position}
+              </span>
+            </div>
             <div className="table-responsive">
               <ol className="list-group list-group-numbered mb-3">
-                {queue.map((user, i) => (
-                  <li className={`list-group-item${user.position === queue[0].position ? ' list-group-item-success fw-bold' : ''}`} key={(user.user_id ?? 'unknown') + '-' + (user.position ?? i)}>
+                {waiting.map((user, i) => (
+                  <li className={`list-group-item${i === 0 ? ' list-group-item-success fw-bold' : ''}`} key={(user.user_id ?? 'unknown') + '-' + (user.position ?? i)}>
                     # {user.position}
                   </li>
                 ))}
               </ol>
             </div>
-            <button className="btn btn-warning w-100 w-md-auto" onClick={popQueue} disabled={loading}>Pop Queue</button>
+            <button className="btn btn-warning w-100 w-md-auto" onClick={popQueue} disabled={loading}>Call Next</button>
           </div>
         )}
         {queue.length === 0 && !loading && !error && stationId && managerId && (
@@ -209,7 +342,7 @@ const PersonQueue: React.FC<PersonQueueProps> = () => {
             Queue is empty.
           </div>
         )}
-        {popped && <div className="alert alert-info mt-2">Popped user: {popped}</div>}
+        {calledNumber !== null && <div className="alert alert-info mt-2">Now calling # {calledNumber}</div>}
       </div>
     </div>
   );
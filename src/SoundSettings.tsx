@@ -0,0 +1,58 @@
+import React from 'react';
+import type { NotificationType } from './types/queue.types';
+import { NOTIFICATION_TYPE_LABELS } from './constants/queue.constants';
+import { useNotificationSound } from './hooks/useNotificationSound';
+
+// Tones worth previewing, in the order people meet them
+const TEST_SOUND_TYPES: NotificationType[] = ['position', 'called', 'recall', 'removed', 'error'];
+
+const SoundSettings: React.FC = () => {
+  const { settings, testSound, setVolume, setMuted } = useNotificationSound();
+  const volumePercent = Math.round(settings.volume * 100);
+
+  return (
+    <div className="sound-settings">
+      <div className="form-check form-switch mb-2">
+        <input
+          id="sound-muted"
+          className="form-check-input"
+          type="checkbox"
+          role="switch"
+          checked={!settings.muted}
+          onChange={e => setMuted(!e.target.checked)}
+        />
+        <label className="form-check-label" htmlFor="sound-muted">
+          Play notification sounds
+        </label>
+      </div>
+      <label htmlFor="sound-volume" className="form-label small mb-0">
+        Volume: {volumePercent}%
+      </label>
+      <input
+        id="sound-volume"
+        className="form-range"
+        type="range"
+        min={0}
+        max={100}
+        step={5}
+        value={volumePercent}
+        onChange={e => setVolume(Number(e.target.value) / 100)}
+      />
+      <div className="d-flex flex-wrap gap-2 mt-1">
+        {TEST_SOUND_TYPES.map(type => (
+          <button
+            key={type}
+            type="button"
+            className="btn btn-sm btn-outline-secondary"
+            onClick={() => testSound(type)}
+            disabled={settings.volume === 0}
+          >
+            ▶ {NOTIFICATION_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SoundSettings;
@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import api from './api';
+import type { AnalyticsReport, StationAnalytics as StationAnalyticsData } from './types/queue.types';
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const formatDuration = (seconds: number | null): string => {
+  if (seconds === null) return '–';
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const ArrivalChart: React.FC<{ station: StationAnalyticsData }> = ({ station }) => {
+  const peak = Math.max(...station.hourlyArrivals, 1);
+  return (
+    <div className="mb-3">
+      <div className="fw-semibold small mb-1">{station.stationName}</div>
+      <div className="arrival-chart" role="img" aria-label={`Hourly arrivals at ${station.stationName}`}>
+        {station.hourlyArrivals.map((count, hour) => (
+          <div
+            key={hour}
+            className="arrival-chart-bar"
+            style={{ height: `${(count / peak) * 100}%` }}
+            title={`${String(hour).padStart(2, '0')}:00 – ${count} arrivals`}
+          />
+        ))}
+      </div>
+      <div className="arrival-chart-labels">
+        <span>00:00</span>
+        <span>06:00</span>
+        <span>12:00</span>
+        <span>18:00</span>
+        <span>23:00</span>
+      </div>
+    </div>
+  );
+};
+
+interface StationAnalyticsProps {
+  adminSecret: string;
+}
+
+const StationAnalytics: React.FC<StationAnalyticsProps> = ({ adminSecret }) => {
+  const [days, setDays] = useState(RANGE_OPTIONS[0]);
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchAnalytics = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await api.get<AnalyticsReport>('/admin/analytics', {
+        headers: { 'x-admin-secret': adminSecret },
+        // Arrivals are bucketed by the admin's local hour
+        params: { days, tzOffset: new Date().getTimezoneOffset() },
+      });
+      setReport(res.data);
+    } catch (e) {
+      const err = e as { response?: { data?: { error?: string } } };
+      setError(err.response?.data?.error || 'Error loading analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [adminSecret, days]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  return (
+    <div className="card mt-3 text-start">
+      <div className="card-body">
+        <div className="d-flex justify-content-between align-items-center flex-wrap gap-2 mb-3">
+          <h4 className="card-title mb-0">Station Analytics</h4>
+          <div className="d-flex gap-2">
+            <select
+              className="form-select form-select-sm"
+              aria-label="Analytics range"
+              value={days}
+              onChange={e => setDays(parseInt(e.target.value, 10))}
+            >
+              {RANGE_OPTIONS.map(option => (
+                <option key={option} value={option}>Last {option} days</option>
+              ))}
+            </select>
+            <button className="btn btn-outline-secondary btn-sm" onClick={fetchAnalytics} disabled={loading}>
+              {loading ? 'Loading...' : 'Refresh'}
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="alert alert-danger">{error}</div>}
+
+        {report && (
+          <>
+            <div className="table-responsive">
+              <table className="table table-sm table-striped">
+                <thead>
+                  <tr>
+                    <th>Station</th>
+                    <th>Joined</th>
+                    <th>Served</th>
+                    <th>No-shows</th>
+                    <th>Left</th>
+                    <th>Avg wait</th>
+                    <th>Avg service</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.stations.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="text-muted">No stations yet</td>
+                    </tr>
+                  ) : (
+                    report.stations.map(station => (
+                      <tr key={station.stationId}>
+                        <td>{station.stationName}</td>
+                        <td>{station.joinedCount}</td>
+                        <td>{station.servedCount}</td>
+                        <td>{station.noShowCount}</td>
+                        <td>{station.leftCount}</td>
+                        <td>{formatDuration(station.avgWaitSeconds)}</td>
+                        <td>{formatDuration(station.avgServiceSeconds)}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <h5 className="mt-3">Arrivals by hour</h5>
+            {report.stations.map(station => (
+              <ArrivalChart key={station.stationId} station={station} />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StationAnalytics;
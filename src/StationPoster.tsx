@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { buildPath } from './hooks/useRoute';
+
+interface StationPosterProps {
+  station: { id: string; name: string };
+  onClose: () => void;
+}
+
+// The join link is built from the admin's own origin, so posters point at whichever deployment printed them
+const getJoinUrl = (stationId: string) =>
+  `${window.location.origin}${buildPath({ view: 'user', joinStationId: stationId })}`;
+
+const StationPoster: React.FC<StationPosterProps> = ({ station, onClose }) => {
+  const [qrSvg, setQrSvg] = useState('');
+  const [error, setError] = useState('');
+  const joinUrl = getJoinUrl(station.id);
+
+  useEffect(() => {
+    let cancelled = false;
+    // SVG keeps the code sharp at any print size
+    QRCode.toString(joinUrl, { type: 'svg', errorCorrectionLevel: 'M', margin: 1 })
+      .then(svg => {
+        if (!cancelled) setQrSvg(svg);
+      })
+      .catch(e => {
+        console.error('Error generating QR code:', e);
+        if (!cancelled) setError('Could not generate the QR code');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [joinUrl]);
+
+  return (
+    <div className="card mt-3">
+      <div className="card-body">
+        <div className="station-poster">
+          <h2 className="station-poster-title">{station.name}</h2>
+          <p className="station-poster-lead">Scan to join the queue</p>
+          {error && <div className="alert alert-danger">{error}</div>}
+          {qrSvg && (
+            <img
+              className="station-poster-qr"
+              src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(qrSvg)}`}
+              alt={`QR code to join ${station.name}`}
+            />
+          )}
+          <ol className="station-poster-steps">
+            <li>Point your phone camera at the code</li>
+            <li>Tap "Join {station.name}"</li>
+            <li>Keep the page open; we'll let you know when it's your turn</li>
+          </ol>
+          <p className="station-poster-url">{joinUrl}</p>
+        </div>
+        <div className="d-flex justify-content-center gap-2 mt-3 station-poster-actions">
+          <button className="btn btn-primary" onClick={() => window.print()} disabled={!qrSvg}>
+            Print Poster
+          </button>
+          <button className="btn btn-outline-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StationPoster;
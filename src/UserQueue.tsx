@@ -1,11 +1,14 @@
 import 'bootstrap/dist/css/bootstrap.min.css';
 import './ConnectionStatus.css';
 import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
-import { v4 as uuidv4 } from 'uuid';
 import api from './api';
+import NotificationCenter from './NotificationCenter';
+import SoundSettings from './SoundSettings';
+import ClaimCodePanel from './ClaimCodePanel';
 import {
   initAbly,
   subscribeToMyQueueUpdates,
+  subscribeToBoardUpdates,
   CHANNEL_NAMES,
   EVENT_NAMES,
   subscribeToChannel,
@@ -13,149 +16,128 @@ import {
   removeConnectionStateListener
 } from './ablyUtils';
 import { createMyQueuesPoller, createStationsPoller, POLLING_INTERVALS } from './fallbackPolling';
-import type { Station, QueueItem, Notification } from './types/queue.types';
-import { STORAGE_KEYS, UI_CONSTANTS } from './constants/queue.constants';
+import type {
+  Station,
+  QueueItem,
+  BoardQueueEntry,
+  QueueSnapshot,
+  QueueAlertPreference
+} from './types/queue.types';
+import {
+  UI_CONSTANTS,
+  TICKET_STATUS_LABELS,
+  QUEUE_ALERT_THRESHOLD_CHOICES
+} from './constants/queue.constants';
 import { useNotifications } from './hooks/useNotifications';
-import { generateNotifications, validateQueueData, getNotificationIcon } from './utils/queueUtils';
-
-// Separate components for better organization
-const NotificationBell: React.FC<{
-  notifications: Notification[];
-  showDropdown: boolean;
-  bellAnimate: boolean;
-  onToggle: () => void;
-  onClear: () => void;
-  onAnimationEnd: () => void;
-}> = ({ notifications, showDropdown, bellAnimate, onToggle, onClear, onAnimationEnd }) => {
-  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' || e.key === ' ') {
-      e.preventDefault();
-      onToggle();
-    }
-  }, [onToggle]);
-
-  const handleBlur = useCallback(() => {
-    // Note: This timeout will be cleared when the component unmounts or when focus returns
-    setTimeout(() => {
-      if (showDropdown) {
-        onToggle();
-      }
-    }, UI_CONSTANTS.notificationBlurTimeout);
-  }, [onToggle, showDropdown]);
-
-  return (
-    <div className="notification-bell-container">
-      <button
-        className="notification-bell"
-        type="button"
-        onClick={onToggle}
-        onKeyDown={handleKeyDown}
-        onBlur={handleBlur}
-        aria-label="Notifications"
-        aria-expanded={showDropdown}
-        aria-haspopup="true"
-      >
-        <span
-          className={bellAnimate ? 'bell-animate' : ''}
-          onAnimationEnd={onAnimationEnd}
-          aria-hidden="true"
-        >
-          🔔
-        </span>
-        {notifications.length > 0 && (
-          <span className="notification-badge">{notifications.length}</span>
-        )}
-      </button>
-      {showDropdown && (
-        <NotificationDropdown
-          notifications={notifications}
-          onClear={onClear}
-        />
-      )}
-    </div>
-  );
+import { navigate } from './hooks/useRoute';
+import { useResyncOnReconnect } from './hooks/useResyncOnReconnect';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { usePushAlerts } from './hooks/usePushAlerts';
+import { useQueueAlertPreferences } from './hooks/useQueueAlertPreferences';
+import { loadMyQueuesSnapshot, saveMyQueuesSnapshot } from './utils/offlineSnapshot';
+import { getOrSetUserId } from './utils/userIdentity';
+import {
+  generateNotifications,
+  getQueueAlertPreference,
+  validateQueueData,
+  createRecallNotification,
+  validateRecallEvent,
+  reconcileQueueItems,
+  applyLinePositions,
+  applyQueuePop,
+  checkSequence,
+  isSnapshotCurrent,
+  validateQueuePopEvent
+} from './utils/queueUtils';
+
+const formatEstimatedWait = (seconds: number): string => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) return '< 1 min';
+  if (minutes < 60) return `≈ ${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  return remainder ? `≈ ${hours} h ${remainder} min` : `≈ ${hours} h`;
 };
 
-const NotificationDropdown: React.FC<{
-  notifications: Notification[];
-  onClear: () => void;
-}> = ({ notifications, onClear }) => (
-  <div className="notification-dropdown">
-    <ul>
-      {notifications.length === 0 ? (
-        <li>No notifications</li>
-      ) : (
-        notifications.map((n, i) => (
-          <li key={`${n.ts}-${i}`} className="notification-list-item">
-            <span className="notification-icon">
-              {getNotificationIcon(n.type)}
-            </span>
-            <NotificationContent notification={n} />
-          </li>
-        ))
-      )}
-    </ul>
-    <div className="notification-dropdown-footer">
-      <button
-        type="button"
-        className="btn btn-sm btn-outline-secondary"
-        onClick={onClear}
-      >
-        Clear All
-      </button>
-    </div>
-  </div>
-);
-
-const NotificationContent: React.FC<{ notification: Notification }> = ({ notification }) => {
-  // Extract notification message logic to avoid nested ternary
-  const renderNotificationMessage = () => {
-    if (notification.type === 'removed') {
-      return (
-        <>
-          Removed from <b>{notification.station}</b> queue
-          {typeof notification.prevQueueNumber === 'number' && (
-            <> (# <b>{notification.prevQueueNumber}</b>)</>
-          )}
-          .
-        </>
-      );
-    }
-    
-    if (notification.type === 'error') {
-      return <>{notification.msg}</>;
-    }
-    
-    // Default case for position change notifications
+const TicketStatusCell: React.FC<{ item: QueueItem }> = ({ item }) => {
+  if (item.status === 'called') {
+    return <span className="badge bg-warning text-dark">{TICKET_STATUS_LABELS.called}</span>;
+  }
+  if (item.status === 'serving') {
+    return <span className="badge bg-primary">{TICKET_STATUS_LABELS.serving}</span>;
+  }
+  if (item.actualPosition) {
     return (
       <>
-        Position in <b>{notification.station}</b> changed to{' '}
-        <b>{notification.queueNumber}</b>.
+        {TICKET_STATUS_LABELS.waiting} ({item.actualPosition} in line)
+        {item.estimatedWaitSeconds !== undefined && (
+          <div className="small text-muted">{formatEstimatedWait(item.estimatedWaitSeconds)} wait</div>
+        )}
       </>
     );
+  }
+  return <>{TICKET_STATUS_LABELS.waiting}</>;
+};
+
+// One <select> value per choice, e.g. "threshold:2"
+const encodeAlertPreference = ({ mode, peopleAhead }: QueueAlertPreference) =>
+  mode === 'threshold' ? `threshold:${peopleAhead}` : mode;
+
+const QueueAlertSelect: React.FC<{
+  item: QueueItem;
+  preference: QueueAlertPreference;
+  onChange: (preference: QueueAlertPreference) => void;
+}> = ({ item, preference, onChange }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const [mode, peopleAhead] = e.target.value.split(':');
+    onChange({
+      mode: mode as QueueAlertPreference['mode'],
+      // Keep the chosen threshold, so "Every move" still escalates at it
+      peopleAhead: peopleAhead ? Number(peopleAhead) : preference.peopleAhead,
+    });
   };
 
   return (
-    <span>
-      {renderNotificationMessage()}
-      <br />
-      <span className="notification-time">
-        {notification.ts ? new Date(notification.ts).toLocaleTimeString() : ''}
-      </span>
-    </span>
+    <select
+      className="form-select form-select-sm"
+      value={encodeAlertPreference(preference)}
+      onChange={handleChange}
+      aria-label={`Alerts for ${item.stationName}`}
+    >
+      <option value="all">Every move</option>
+      {QUEUE_ALERT_THRESHOLD_CHOICES.map(n => (
+        <option key={n} value={`threshold:${n}`}>
+          When {n} {n === 1 ? 'person is' : 'people are'} ahead
+        </option>
+      ))}
+      <option value="called">Only when called</option>
+      <option value="mute">Mute</option>
+    </select>
   );
 };
 
-const UserQueue: React.FC = () => {
+interface UserQueueProps {
+  /** Station from a /join/:stationId link, offered for one-tap join */
+  joinStationId?: string;
+}
+
+const UserQueue: React.FC<UserQueueProps> = ({ joinStationId }) => {
   // State management
   const [stations, setStations] = useState<Station[]>([]);
-  const [selected, setSelected] = useState<string>('');
+  const [selected, setSelected] = useState<string>(joinStationId ?? '');
   const [queueNumber, setQueueNumber] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
-  const [myQueues, setMyQueues] = useState<QueueItem[]>([]);
+  // The tickets saved on the last visit show until the first fetch, or for good while offline
+  const [initialSnapshot] = useState(loadMyQueuesSnapshot);
+  const [myQueues, setMyQueues] = useState<QueueItem[]>(initialSnapshot?.queues ?? []);
   const [userId, setUserId] = useState<string>('');
-  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(
+    initialSnapshot ? new Date(initialSnapshot.savedAt) : null
+  );
+  // True while the tickets on screen come from the saved snapshot rather than the server
+  const [isStale, setIsStale] = useState(initialSnapshot !== null);
   const [isUsingFallback, setIsUsingFallback] = useState(false);
+  const [leavingStationId, setLeavingStationId] = useState<string | null>(null);
 
   // Use custom hooks
   const {
@@ -165,13 +147,27 @@ const UserQueue: React.FC = () => {
     setBellAnimate,
     addNotifications,
     clearNotifications,
+    markRead,
+    markAllRead,
+    dismissNotification,
     toggleDropdown,
+    hideDropdown,
   } = useNotifications();
+  const { preferences: alertPreferences, setPreference: setAlertPreference } = useQueueAlertPreferences();
+  const pushAlerts = usePushAlerts(alertPreferences);
 
   // Refs for managing state and pollers
-  const prevQueuesRef = useRef<QueueItem[]>([]);
+  const prevQueuesRef = useRef<QueueItem[]>(initialSnapshot?.queues ?? []);
   const myQueuesPollerRef = useRef<ReturnType<typeof createMyQueuesPoller> | null>(null);
   const stationsPollerRef = useRef<ReturnType<typeof createStationsPoller> | null>(null);
+  // The anonymised line of each station we hold a ticket at, as followed on its board channel
+  const linesRef = useRef<Record<string, QueueSnapshot<BoardQueueEntry>>>({});
+  // Read when generating notifications, so changing a preference doesn't resubscribe anything
+  const alertPreferencesRef = useRef(alertPreferences);
+  alertPreferencesRef.current = alertPreferences;
+  // Read by the update handlers, so picking another station doesn't resubscribe or refetch
+  const selectedRef = useRef(selected);
+  selectedRef.current = selected;
 
   // Memoized values
   const selectedStationName = useMemo(() => {
@@ -181,16 +177,22 @@ const UserQueue: React.FC = () => {
     return station?.name ?? 'Station';
   }, [myQueues, stations, selected]);
 
+  const joinLinkStation = useMemo(
+    () => (joinStationId ? stations.find(s => s.id === joinStationId) : undefined),
+    [stations, joinStationId]
+  );
+  const joinLinkQueued = myQueues.some(q => q.stationId === joinStationId);
+
+  // Preselect the station whenever a new join link is opened
+  useEffect(() => {
+    if (joinStationId) setSelected(joinStationId);
+  }, [joinStationId]);
+
   // Initialize user ID
   useEffect(() => {
-    let storedUserId = localStorage.getItem(STORAGE_KEYS.userId);
-    
-    if (!storedUserId) {
-      storedUserId = uuidv4();
-      localStorage.setItem(STORAGE_KEYS.userId, storedUserId);
-      console.log('UserQueue: Generated new userId:', storedUserId);
-    }
-    
+    const storedUserId = getOrSetUserId(newUserId => {
+      console.log('UserQueue: Generated new userId:', newUserId);
+    });
     console.log('UserQueue: Initializing with userId', storedUserId);
     setUserId(storedUserId);
   }, []);
@@ -242,6 +244,7 @@ const UserQueue: React.FC = () => {
     } catch (error) {
       console.error('Error fetching stations:', error);
       setStations([]);
+      if (!navigator.onLine) return;
       
       // Show error notification to user
       addNotifications([{
@@ -260,11 +263,12 @@ const UserQueue: React.FC = () => {
     try {
       const res = await api.get<QueueItem[]>('/my-queues');
       console.log('UserQueue: My queues data received:', res.data);
-      const newQueueData = Array.isArray(res.data) ? res.data : [];
+      // A response that was overtaken by a real-time update must not roll a ticket back
+      const newQueueData = reconcileQueueItems(prevQueuesRef.current, Array.isArray(res.data) ? res.data : []);
       
       // Generate notifications if we have previous data
       if (prevQueuesRef.current.length > 0) {
-        const newNotifications = generateNotifications(prevQueuesRef.current, newQueueData);
+        const newNotifications = generateNotifications(prevQueuesRef.current, newQueueData, alertPreferencesRef.current);
         if (newNotifications.length > 0) {
           console.log('UserQueue: Generated notifications:', newNotifications);
           addNotifications(newNotifications);
@@ -274,16 +278,20 @@ const UserQueue: React.FC = () => {
       prevQueuesRef.current = newQueueData;
       setMyQueues(newQueueData);
       setLastUpdate(new Date());
+      setIsStale(false);
       
       // Update queue number for selected station
-      if (selected) {
-        const found = newQueueData.find(q => q.stationId === selected);
+      if (selectedRef.current) {
+        const found = newQueueData.find(q => q.stationId === selectedRef.current);
         setQueueNumber(found ? found.queueNumber : null);
       }
     } catch (error) {
       console.error('Error fetching my queues:', error);
-      setMyQueues([]);
-      
+      // Keep the last known tickets on screen, marked with when they were loaded
+      setIsStale(true);
+      // The offline banner already says why nothing loads
+      if (!navigator.onLine) return;
+
       // Show error notification to user
       addNotifications([{
         msg: 'Failed to load your queue information. Please try again.',
@@ -292,7 +300,27 @@ const UserQueue: React.FC = () => {
         station: 'System'
       }]);
     }
-  }, [userId, selected, addNotifications]);
+  }, [userId, addNotifications]);
+
+  // Keep the offline snapshot in step with whatever the server last confirmed
+  useEffect(() => {
+    if (isStale || !lastUpdate) return;
+    saveMyQueuesSnapshot(myQueues, lastUpdate.getTime());
+  }, [myQueues, lastUpdate, isStale]);
+
+  // The realtime connection may not notice a dropped network for a while, so resync on the
+  // browser's own online event too
+  const isOnline = useOnlineStatus(() => {
+    fetchStations();
+    fetchMyQueues();
+  });
+
+  // Anything published while offline is gone, so reload the tickets once the connection is back.
+  // Lines are reloaded on their next message.
+  useResyncOnReconnect(() => {
+    linesRef.current = {};
+    fetchMyQueues();
+  });
 
   const joinQueue = useCallback(async () => {
     if (!selected) return;
@@ -303,6 +331,8 @@ const UserQueue: React.FC = () => {
       const res = await api.post<{ queueNumber: number }>(`/queue/${selected}`);
       setQueueNumber(res.data.queueNumber);
       await fetchMyQueues();
+      // Drop the join link so a refresh doesn't offer to join again
+      if (joinStationId) navigate('/', { replace: true });
     } catch (error) {
       console.error('Error joining queue:', error);
       
@@ -331,7 +361,53 @@ const UserQueue: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [selected, fetchMyQueues, stations, addNotifications]);
+  }, [selected, fetchMyQueues, stations, addNotifications, joinStationId]);
+
+  const acknowledgeCall = useCallback(async (stationId: string) => {
+    try {
+      await api.post(`/queue/${stationId}/acknowledge`);
+      await fetchMyQueues();
+    } catch (error) {
+      console.error('Error acknowledging call:', error);
+      addNotifications([{
+        msg: 'Could not confirm you are on your way. Please head to the station.',
+        ts: Date.now(),
+        type: 'error',
+        station: 'System'
+      }]);
+    }
+  }, [fetchMyQueues, addNotifications]);
+
+  const leaveQueue = useCallback(async (item: QueueItem) => {
+    const confirmLeave = window.confirm(`Leave the "${item.stationName}" queue?\nYou will lose ticket # ${item.queueNumber}.`);
+    if (!confirmLeave) return;
+
+    setLeavingStationId(item.stationId);
+    try {
+      await api.delete(`/queue/${item.stationId}`);
+      // Drop the ticket locally first so leaving doesn't raise a "removed" notification
+      prevQueuesRef.current = prevQueuesRef.current.filter(q => q.stationId !== item.stationId);
+      setMyQueues(prev => prev.filter(q => q.stationId !== item.stationId));
+      await fetchMyQueues();
+    } catch (error) {
+      console.error('Error leaving queue:', error);
+      let errorMessage = 'Unknown error occurred';
+      if (error && typeof error === 'object' && 'response' in error) {
+        const axiosError = error as { response?: { data?: { error?: string } } };
+        errorMessage = axiosError.response?.data?.error ?? errorMessage;
+      } else if (error instanceof Error) {
+        errorMessage = error.message;
+      }
+      addNotifications([{
+        msg: `Failed to leave "${item.stationName}": ${errorMessage}`,
+        ts: Date.now(),
+        type: 'error',
+        station: item.stationName
+      }]);
+    } finally {
+      setLeavingStationId(null);
+    }
+  }, [fetchMyQueues, addNotifications]);
 
   // Handle queue updates from Ably
   const handleQueueUpdate = useCallback((queueData: unknown) => {
@@ -341,25 +417,27 @@ const UserQueue: React.FC = () => {
       console.error('UserQueue: Invalid queue data received:', queueData);
       return;
     }
+    const currentQueues = reconcileQueueItems(prevQueuesRef.current, queueData);
 
     // Generate notifications
     if (prevQueuesRef.current.length > 0) {
-      const newNotifications = generateNotifications(prevQueuesRef.current, queueData);
+      const newNotifications = generateNotifications(prevQueuesRef.current, currentQueues, alertPreferencesRef.current);
       if (newNotifications.length > 0) {
         addNotifications(newNotifications);
       }
     }
 
-    prevQueuesRef.current = queueData;
-    setMyQueues(queueData);
+    prevQueuesRef.current = currentQueues;
+    setMyQueues(currentQueues);
     setLastUpdate(new Date());
+    setIsStale(false);
 
     // Update queue number if needed
-    if (selected) {
-      const found = queueData.find(q => q.stationId === selected);
+    if (selectedRef.current) {
+      const found = currentQueues.find(q => q.stationId === selectedRef.current);
       setQueueNumber(found ? found.queueNumber : null);
     }
-  }, [selected, addNotifications]);
+  }, [addNotifications]);
 
   // Fallback polling management
   useEffect(() => {
@@ -442,24 +520,26 @@ const UserQueue: React.FC = () => {
         );
         unsubscribes.push(stationsDeleteUnsubscribe);
 
-        // Subscribe to queue pop events for all stations
-        if (stations.length > 0) {
-          for (const station of stations) {
-            const unsubscribe = await subscribeToChannel(
-              CHANNEL_NAMES.QUEUE(station.id),
-              EVENT_NAMES.QUEUE_POP,
-              () => {
-                console.log('UserQueue: Queue pop event for station', station.id);
-                fetchMyQueues();
-              }
-            );
-            unsubscribes.push(unsubscribe);
-          }
-        }
-        
         // Subscribe to personal queue updates
         const myQueuesUnsubscribe = await subscribeToMyQueueUpdates(userId, handleQueueUpdate);
         unsubscribes.push(myQueuesUnsubscribe);
+
+        // Subscribe to missed-call recalls aimed at this user
+        const recallUnsubscribe = await subscribeToChannel(
+          CHANNEL_NAMES.MY_QUEUES(userId),
+          EVENT_NAMES.TICKET_RECALL,
+          (data: unknown) => {
+            if (!validateRecallEvent(data)) {
+              console.error('UserQueue: Invalid recall event received:', data);
+              return;
+            }
+            const notification = createRecallNotification(data);
+            if (notification) {
+              addNotifications([notification]);
+            }
+          }
+        );
+        unsubscribes.push(recallUnsubscribe);
       } catch (error) {
         console.error('UserQueue: Error setting up subscriptions:', error);
       }
@@ -470,7 +550,78 @@ const UserQueue: React.FC = () => {
     return () => {
       unsubscribes.forEach(unsub => unsub());
     };
-  }, [userId, stations, fetchStations, fetchMyQueues, handleQueueUpdate]);
+  }, [userId, fetchStations, handleQueueUpdate, addNotifications]);
+
+  // Stations we hold a ticket at, as a stable key for the line subscriptions
+  const queuedStationKey = useMemo(
+    () => [...new Set(myQueues.map(q => q.stationId))].sort().join(','),
+    [myQueues]
+  );
+
+  // Follow the line at each of those stations and work out our own place in it. The server
+  // broadcasts one message per change to everyone, instead of a personal update per person.
+  useEffect(() => {
+    if (!userId || !queuedStationKey) return;
+
+    const stationIds = queuedStationKey.split(',');
+    const lines = linesRef.current;
+    Object.keys(lines).forEach(id => {
+      if (!stationIds.includes(id)) delete lines[id];
+    });
+
+    let active = true;
+    const unsubscribes: (() => void)[] = [];
+
+    // Subscriptions that finish after cleanup are dropped straight away
+    const track = (unsubscribe: () => void) => {
+      if (active) unsubscribes.push(unsubscribe);
+      else unsubscribe();
+    };
+
+    const applyLine = (stationId: string, line: QueueSnapshot<BoardQueueEntry>) => {
+      lines[stationId] = line;
+      handleQueueUpdate(applyLinePositions(prevQueuesRef.current, stationId, line));
+    };
+
+    const loadLine = (stationId: string) => {
+      api.get<QueueSnapshot<BoardQueueEntry>>(`/queue/${stationId}/board`)
+        .then(res => {
+          const snapshot = { queue: res.data.queue ?? [], seq: res.data.seq };
+          if (active && isSnapshotCurrent(lines[stationId]?.seq ?? null, snapshot.seq)) applyLine(stationId, snapshot);
+        })
+        .catch(error => console.error(`UserQueue: Error loading the line at station ${stationId}:`, error));
+    };
+
+    const followLine = async (stationId: string) => {
+      if (!lines[stationId]) loadLine(stationId);
+
+      track(await subscribeToBoardUpdates(stationId, (data: unknown) => {
+        const update = data as Partial<QueueSnapshot<BoardQueueEntry>> | null;
+        if (!update || !Array.isArray(update.queue)) return;
+        const check = checkSequence(lines[stationId]?.seq ?? null, update.seq);
+        if (check === 'gap') loadLine(stationId);
+        else if (check === 'apply') applyLine(stationId, { queue: update.queue, seq: update.seq });
+      }));
+
+      track(await subscribeToChannel(CHANNEL_NAMES.BOARD(stationId), EVENT_NAMES.QUEUE_POP, (data: unknown) => {
+        if (!validateQueuePopEvent(data)) return;
+        const line = lines[stationId];
+        // A delta needs the line it applies to
+        const check = line ? checkSequence(line.seq ?? null, data.seq) : 'gap';
+        if (check === 'gap') loadLine(stationId);
+        else if (check === 'apply') applyLine(stationId, { queue: applyQueuePop(line.queue, data), seq: data.seq ?? line.seq });
+      }));
+    };
+
+    stationIds.forEach(stationId => {
+      followLine(stationId).catch(error => console.error(`UserQueue: Error following station ${stationId}:`, error));
+    });
+
+    return () => {
+      active = false;
+      unsubscribes.forEach(unsub => unsub());
+    };
+  }, [userId, queuedStationKey, handleQueueUpdate]);
 
   // Initial data fetch
   useEffect(() => {
@@ -500,6 +651,8 @@ const UserQueue: React.FC = () => {
     return () => window.removeEventListener('queue-updated', handler);
   }, [fetchStations, fetchMyQueues]);
 
+  const calledQueues = useMemo(() => myQueues.filter(q => q.status === 'called'), [myQueues]);
+
   // Compute button state
   const buttonConfig = useMemo(() => {
     if (loading) return { label: 'Joining...', disabled: true };
@@ -522,17 +675,40 @@ const UserQueue: React.FC = () => {
           </div>
         )}
         
-        {/* Notification Bell */}
-        <NotificationBell
+        <NotificationCenter
           notifications={notifications}
           showDropdown={showDropdown}
           bellAnimate={bellAnimate}
           onToggle={toggleDropdown}
+          onClose={hideDropdown}
           onClear={clearNotifications}
+          onMarkRead={markRead}
+          onMarkAllRead={markAllRead}
+          onDismiss={dismissNotification}
           onAnimationEnd={() => setBellAnimate(false)}
         />
 
         <h2 className="mb-4">Queue for a Station</h2>
+
+        {joinStationId && !joinLinkQueued && stations.length > 0 && (
+          joinLinkStation ? (
+            <div className="alert alert-primary d-flex flex-wrap align-items-center justify-content-between gap-2">
+              <span>Join the queue for <b>{joinLinkStation.name}</b>?</span>
+              <button
+                type="button"
+                className="btn btn-primary btn-lg"
+                onClick={joinQueue}
+                disabled={loading}
+              >
+                {loading ? 'Joining...' : `Join ${joinLinkStation.name}`}
+              </button>
+            </div>
+          ) : (
+            <div className="alert alert-warning">
+              This join link points to a station that no longer exists. Please pick a station below.
+            </div>
+          )
+        )}
         
         <div className="row mb-3">
           <div className="col-12 col-md-6 mb-2 mb-md-0">
@@ -571,27 +747,81 @@ const UserQueue: React.FC = () => {
             Your queue number for <b>{selectedStationName}</b>: # <b>{queueNumber}</b>
           </div>
         )}
+
+        {calledQueues.map(q => (
+          <div key={q.stationId} className="alert alert-warning fw-bold" role="alert">
+            📣 You are being called at <b>{q.stationName}</b> (# {q.queueNumber}). Please proceed to the station.
+            {q.acknowledged ? (
+              <div className="small fw-normal mt-1">The station knows you are on your way.</div>
+            ) : (
+              <div className="d-flex flex-wrap align-items-center gap-2 mt-2">
+                <button
+                  type="button"
+                  className="btn btn-sm btn-dark"
+                  onClick={() => acknowledgeCall(q.stationId)}
+                >
+                  I'm on my way
+                </button>
+                {q.callExpiresAt && (
+                  <span className="small fw-normal">
+                    Please confirm by {new Date(q.callExpiresAt).toLocaleTimeString()} to keep your spot.
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
         
         <h3 className="admin-stations-title mt-4">My Queues</h3>
         
-        {lastUpdate && (
+        {lastUpdate && (isStale || !isOnline) ? (
+          <div className="alert alert-secondary small mb-2" role="status">
+            {isOnline ? 'Could not reach the server.' : '📴 You are offline.'} Showing your tickets as of{' '}
+            <b>{lastUpdate.toLocaleString()}</b>; they may have changed since.
+          </div>
+        ) : lastUpdate && (
           <div className="text-muted small mb-2">
             Last updated: {lastUpdate.toLocaleTimeString()}
           </div>
         )}
         
+        {(pushAlerts.status === 'off' || pushAlerts.status === 'on') && (
+          <div className="d-flex flex-wrap align-items-center gap-2 mb-2">
+            <button
+              type="button"
+              className={`btn btn-sm ${pushAlerts.status === 'on' ? 'btn-outline-secondary' : 'btn-outline-primary'}`}
+              onClick={pushAlerts.status === 'on' ? pushAlerts.disable : pushAlerts.enable}
+              disabled={pushAlerts.busy}
+            >
+              {pushAlerts.status === 'on' ? '🔕 Stop alerts on this device' : '🔔 Alert me on this device'}
+            </button>
+            <span className="text-muted small">
+              {pushAlerts.status === 'on'
+                ? "We'll alert you as each queue's alert setting says, even with the screen locked."
+                : 'Get an alert when your turn is close, even with the screen locked.'}
+            </span>
+          </div>
+        )}
+        {pushAlerts.status === 'denied' && (
+          <div className="text-muted small mb-2">Alerts are blocked for this site in your browser settings.</div>
+        )}
+        {pushAlerts.error && <div className="alert alert-danger small py-2">{pushAlerts.error}</div>}
+
         <div className="table-responsive">
           <table className="table table-bordered table-striped mt-2">
             <thead>
               <tr>
                 <th>Station</th>
                 <th>Queue Number</th>
+                <th>Status</th>
+                <th>Alerts</th>
+                <th>Actions</th>
               </tr>
             </thead>
             <tbody>
               {myQueues.length === 0 ? (
                 <tr>
-                  <td colSpan={2} className="text-center">
+                  <td colSpan={5} className="text-center">
                     You are not in any queues
                   </td>
                 </tr>
@@ -600,12 +830,42 @@ const UserQueue: React.FC = () => {
                   <tr key={q.stationId}>
                     <td>{q.stationName}</td>
                     <td>{q.queueNumber}</td>
+                    <td><TicketStatusCell item={q} /></td>
+                    <td>
+                      <QueueAlertSelect
+                        item={q}
+                        preference={getQueueAlertPreference(alertPreferences, q.stationId)}
+                        onChange={preference => setAlertPreference(q.stationId, preference)}
+                      />
+                    </td>
+                    <td>
+                      {q.status !== 'serving' && (
+                        <button
+                          type="button"
+                          className="btn btn-outline-danger btn-sm"
+                          onClick={() => leaveQueue(q)}
+                          disabled={leavingStationId === q.stationId}
+                          aria-label={`Leave ${q.stationName} queue`}
+                        >
+                          {leavingStationId === q.stationId ? 'Leaving...' : 'Leave'}
+                        </button>
+                      )}
+                    </td>
                   </tr>
                 ))
               )}
             </tbody>
           </table>
         </div>
+
+        <ClaimCodePanel hasTickets={myQueues.length > 0} onClaimed={fetchMyQueues} />
+
+        <details className="mt-3">
+          <summary>🔊 Notification sounds</summary>
+          <div className="mt-2">
+            <SoundSettings />
+          </div>
+        </details>
       </div>
     </div>
   );
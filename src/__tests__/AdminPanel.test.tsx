@@ -283,8 +283,7 @@ describe('AdminPanel', () => {
     });
 
     it('handles manage station action', async () => {
-      const onSwitchView = vi.fn();
-      render(<AdminPanel onSwitchView={onSwitchView} />);
+      render(<AdminPanel />);
       
       await waitFor(() => {
         expect(screen.getByText('Test Station')).toBeInTheDocument();
@@ -294,10 +293,72 @@ describe('AdminPanel', () => {
       await user.click(manageButtons[0]);
       
       await waitFor(() => {
-        expect(localStorage.getItem('personStationId')).toBe('1');
-        expect(localStorage.getItem('personManagerId')).toBe('mgr-1');
-        expect(onSwitchView).toHaveBeenCalledWith('person');
+        expect(window.location.pathname).toBe('/station/1');
+        expect(window.history.state).toEqual({ managerId: 'mgr-1' });
+      });
+    });
+
+    it('shows station analytics on demand', async () => {
+      (api.get as Mock).mockImplementation((url: string) => {
+        if (url === '/stations') return Promise.resolve({ data: mockStations });
+        if (url === '/admin/analytics') {
+          return Promise.resolve({
+            data: {
+              since: new Date().toISOString(),
+              days: 7,
+              stations: [{
+                stationId: '1',
+                stationName: 'Test Station',
+                joinedCount: 12,
+                servedCount: 9,
+                noShowCount: 2,
+                leftCount: 1,
+                avgWaitSeconds: 720,
+                avgServiceSeconds: 45,
+                hourlyArrivals: new Array(24).fill(0),
+              }],
+            },
+          });
+        }
+        return Promise.reject(new Error('Unknown endpoint'));
+      });
+
+      render(<AdminPanel />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Test Station')).toBeInTheDocument();
+      });
+      expect(api.get).not.toHaveBeenCalledWith('/admin/analytics', expect.anything());
+
+      await user.click(screen.getByRole('button', { name: 'Analytics' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Station Analytics')).toBeInTheDocument();
+        expect(screen.getByText('12 min')).toBeInTheDocument();
+        expect(screen.getByText('45s')).toBeInTheDocument();
+      });
+      expect(api.get).toHaveBeenCalledWith('/admin/analytics', expect.objectContaining({
+        headers: { 'x-admin-secret': 'test-secret' },
+        params: expect.objectContaining({ days: 7 }),
+      }));
+    });
+
+    it('renders a printable join poster for a station', async () => {
+      const print = vi.spyOn(window, 'print').mockImplementation(() => {});
+      render(<AdminPanel />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Test Station')).toBeInTheDocument();
       });
+
+      await user.click(screen.getAllByRole('button', { name: 'Poster' })[0]);
+
+      const qr = await screen.findByAltText('QR code to join Test Station');
+      expect(qr.getAttribute('src')).toMatch(/^data:image\/svg\+xml/);
+      expect(screen.getByText(`${window.location.origin}/join/1`)).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Print Poster' }));
+      expect(print).toHaveBeenCalled();
     });
 
     it('disables manage button when manager ID is not available', async () => {
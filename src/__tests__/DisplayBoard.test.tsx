@@ -0,0 +1,279 @@
+// src/__tests__/DisplayBoard.test.tsx
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { render, screen, waitFor, act } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import DisplayBoard from '../DisplayBoard';
+
+vi.mock('../api', () => ({
+  default: {
+    get: vi.fn(),
+  }
+}));
+
+vi.mock('../ablyUtils', () => ({
+  subscribeToChannel: vi.fn(),
+  subscribeToBoardUpdates: vi.fn(),
+  addConnectionStateListener: vi.fn(),
+  removeConnectionStateListener: vi.fn(),
+  CHANNEL_NAMES: {
+    BOARD: (stationId: string) => `board:${stationId}`,
+  },
+  EVENT_NAMES: {
+    QUEUE_UPDATE: 'queue:update',
+    QUEUE_POP: 'queue:pop',
+  },
+}));
+
+vi.mock('../fallbackPolling', () => ({
+  createQueuePoller: vi.fn(() => ({ start: vi.fn(), stop: vi.fn() })),
+  POLLING_INTERVALS: { FAST: 2000, NORMAL: 5000, SLOW: 10000 },
+}));
+
+import api from '../api';
+import * as ablyUtils from '../ablyUtils';
+import * as fallbackPolling from '../fallbackPolling';
+
+class MockUtterance {
+  text: string;
+  lang = '';
+  voice: unknown = null;
+  onend: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  constructor(text: string) {
+    this.text = text;
+  }
+}
+
+describe('DisplayBoard', () => {
+  let queueUpdateCallback: ((data: unknown) => void) | undefined;
+  let queuePopCallback: ((data: unknown) => void) | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    window.history.replaceState(null, '', '/board?stations=station-1&next=2');
+
+    (api.get as Mock).mockImplementation((url: string) => {
+      if (url === '/queue/station-1/board') {
+        return Promise.resolve({
+          data: {
+            stationName: 'Cashier',
+            announcement: { template: 'Ticket {number} to {station}', language: 'en-GB', voice: null },
+            queue: [
+              { position: 104, status: 'called' },
+              { position: 105, status: 'waiting' },
+              { position: 106, status: 'waiting' },
+              { position: 107, status: 'waiting' },
+            ],
+          },
+        });
+      }
+      if (url === '/stations') {
+        // The public station list, as /stations serves it without an admin secret
+        return Promise.resolve({ data: [{ id: 'station-1', name: 'Cashier', callGraceSeconds: 120 }] });
+      }
+      return Promise.reject(new Error('Unknown endpoint'));
+    });
+
+    (ablyUtils.subscribeToBoardUpdates as Mock).mockImplementation((_stationId: string, callback: (data: unknown) => void) => {
+      queueUpdateCallback = callback;
+      return Promise.resolve(vi.fn());
+    });
+    (ablyUtils.subscribeToChannel as Mock).mockImplementation((_channel: string, _event: string, callback: (data: unknown) => void) => {
+      queuePopCallback = callback;
+      return Promise.resolve(vi.fn());
+    });
+    (ablyUtils.addConnectionStateListener as Mock).mockImplementation((listener: (state: string) => void) => {
+      listener('connected');
+    });
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+    window.localStorage.clear();
+    vi.unstubAllGlobals();
+  });
+
+  it('shows the number being served and the next numbers for each configured station', async () => {
+    render(<DisplayBoard />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Cashier')).toBeInTheDocument();
+      expect(screen.getByText('104')).toBeInTheDocument();
+    });
+    // next=2 limits the upcoming numbers
+    expect(screen.getByText(/105\s+·\s+106/)).toBeInTheDocument();
+    expect(screen.queryByText(/107/)).not.toBeInTheDocument();
+  });
+
+  it('updates live from queue updates without keeping user ids', async () => {
+    render(<DisplayBoard />);
+
+    await waitFor(() => expect(screen.getByText('104')).toBeInTheDocument());
+    expect(ablyUtils.subscribeToBoardUpdates).toHaveBeenCalledWith('station-1', expect.any(Function));
+    expect(ablyUtils.subscribeToChannel).toHaveBeenCalledWith('board:station-1', 'queue:pop', expect.any(Function));
+
+    queueUpdateCallback?.({
+      queue: [
+        { user_id: 'secret-user', position: 105, status: 'serving' },
+        { user_id: 'other-user', position: 106, status: 'waiting' },
+      ],
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('105')).toBeInTheDocument();
+      expect(screen.queryByText('104')).not.toBeInTheDocument();
+    });
+    expect(document.body.textContent).not.toContain('secret-user');
+  });
+
+  it('moves a called ticket to now serving from the pop delta', async () => {
+    render(<DisplayBoard />);
+    await waitFor(() => expect(screen.getByText(/105\s+·\s+106/)).toBeInTheDocument());
+
+    act(() => queuePopCallback?.({ position: 105, status: 'called' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('105')).toBeInTheDocument();
+      expect(screen.getByText(/106\s+·\s+107/)).toBeInTheDocument();
+    });
+  });
+
+  it('ignores out-of-date updates and reloads the board after a gap', async () => {
+    const getBoard = api.get as Mock;
+    const defaultGet = getBoard.getMockImplementation()!;
+    getBoard.mockImplementation((url: string) =>
+      defaultGet(url).then((res: { data: object }) =>
+        url === '/queue/station-1/board' ? { data: { ...res.data, seq: 5 } } : res));
+
+    render(<DisplayBoard />);
+    await waitFor(() => expect(screen.getByText('104')).toBeInTheDocument());
+
+    act(() => queueUpdateCallback?.({ seq: 5, queue: [{ position: 999, status: 'called' }] }));
+    expect(screen.queryByText('999')).not.toBeInTheDocument();
+
+    act(() => queueUpdateCallback?.({ seq: 6, queue: [{ position: 105, status: 'called' }] }));
+    await waitFor(() => expect(screen.queryByText('104')).not.toBeInTheDocument());
+
+    // #7 and #8 never arrived
+    act(() => queueUpdateCallback?.({ seq: 9, queue: [{ position: 108, status: 'called' }] }));
+    await waitFor(() => {
+      expect(getBoard.mock.calls.filter(([url]) => url === '/queue/station-1/board')).toHaveLength(2);
+    });
+    expect(screen.queryByText('108')).not.toBeInTheDocument();
+  });
+
+  it('reloads the board when the connection comes back', async () => {
+    const listeners: ((state: string) => void)[] = [];
+    (ablyUtils.addConnectionStateListener as Mock).mockImplementation((listener: (state: string) => void) => {
+      listeners.push(listener);
+      listener('connected');
+    });
+
+    render(<DisplayBoard />);
+    await waitFor(() => expect(screen.getByText('104')).toBeInTheDocument());
+
+    act(() => {
+      listeners.forEach(listener => listener('disconnected'));
+      listeners.forEach(listener => listener('connected'));
+    });
+
+    await waitFor(() => {
+      expect((api.get as Mock).mock.calls.filter(([url]) => url === '/queue/station-1/board')).toHaveLength(2);
+    });
+  });
+
+  it('falls back to polling the public board view when real-time is down', async () => {
+    (ablyUtils.addConnectionStateListener as Mock).mockImplementation((listener: (state: string) => void) => {
+      listener('failed');
+    });
+
+    render(<DisplayBoard />);
+
+    await waitFor(() => {
+      expect(fallbackPolling.createQueuePoller).toHaveBeenCalledWith('station-1', null, expect.any(Function));
+    });
+  });
+
+  it('drops a poll that was overtaken by a real-time message', async () => {
+    (ablyUtils.addConnectionStateListener as Mock).mockImplementation((listener: (state: string) => void) => {
+      listener('failed');
+    });
+    const getBoard = api.get as Mock;
+    const defaultGet = getBoard.getMockImplementation()!;
+    getBoard.mockImplementation((url: string) =>
+      defaultGet(url).then((res: { data: object }) =>
+        url === '/queue/station-1/board' ? { data: { ...res.data, seq: 5 } } : res));
+
+    render(<DisplayBoard />);
+    await waitFor(() => expect(screen.getByText('104')).toBeInTheDocument());
+    const [, , onPoll] = (fallbackPolling.createQueuePoller as Mock).mock.calls[0];
+
+    act(() => queuePopCallback?.({ position: 105, status: 'called', seq: 6 }));
+    await waitFor(() => expect(screen.getByText(/106\s+·\s+107/)).toBeInTheDocument());
+
+    // Sent before the pop, answered after it
+    act(() => onPoll({ seq: 5, queue: [{ position: 104, status: 'called' }, { position: 105, status: 'waiting' }] }));
+    expect(screen.getByText(/106\s+·\s+107/)).toBeInTheDocument();
+
+    act(() => onPoll({ seq: 7, queue: [{ position: 106, status: 'called' }, { position: 107, status: 'waiting' }] }));
+    await waitFor(() => expect(screen.getByText('106')).toBeInTheDocument());
+    // Polled snapshots move the sequence on, so the next delta is not taken for a gap
+    act(() => queuePopCallback?.({ position: 107, status: 'called', seq: 8 }));
+    await waitFor(() => expect(screen.getByText('107')).toBeInTheDocument());
+    expect(getBoard.mock.calls.filter(([url]) => url === '/queue/station-1/board')).toHaveLength(1);
+  });
+
+  it('speaks each call in turn once announcements are switched on', async () => {
+    const speak = vi.fn();
+    vi.stubGlobal('SpeechSynthesisUtterance', MockUtterance);
+    vi.stubGlobal('speechSynthesis', { speak, cancel: vi.fn(), getVoices: () => [] });
+
+    render(<DisplayBoard />);
+    await waitFor(() => expect(screen.getByText('104')).toBeInTheDocument());
+
+    await userEvent.setup().click(screen.getByRole('button', { name: /Announcements off/i }));
+    expect(speak).toHaveBeenCalledTimes(1);
+    act(() => speak.mock.calls[0][0].onend());
+
+    act(() => {
+      queuePopCallback?.({ poppedUserId: 'secret-user', position: 105, status: 'called' });
+      queuePopCallback?.({ poppedUserId: 'other-user', position: 106, status: 'called' });
+    });
+
+    // The second call waits until the first has been spoken
+    expect(speak).toHaveBeenCalledTimes(2);
+    expect(speak.mock.calls[1][0]).toMatchObject({ text: 'Ticket 105 to Cashier', lang: 'en-GB' });
+
+    act(() => speak.mock.calls[1][0].onend());
+    expect(speak).toHaveBeenCalledTimes(3);
+    expect(speak.mock.calls[2][0].text).toBe('Ticket 106 to Cashier');
+  });
+
+  it('shows the setup screen when no stations are configured', async () => {
+    window.history.replaceState(null, '', '/board');
+
+    render(<DisplayBoard />);
+
+    expect(screen.getByText('Display Board Setup')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.getByLabelText('Cashier')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('mgr-1')).not.toBeInTheDocument();
+  });
+
+  it('opens a board from the public station list with only station ids in its address', async () => {
+    const user = userEvent.setup();
+    window.history.replaceState(null, '', '/board');
+
+    render(<DisplayBoard />);
+
+    await user.click(await screen.findByLabelText('Cashier'));
+    await user.click(screen.getByRole('button', { name: 'Open Board' }));
+
+    expect(api.get).toHaveBeenCalledWith('/stations');
+    expect(new URLSearchParams(window.location.search).get('stations')).toBe('station-1');
+    await waitFor(() => expect(screen.getByText('104')).toBeInTheDocument());
+  });
+});
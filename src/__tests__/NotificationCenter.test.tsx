@@ -0,0 +1,101 @@
+// src/__tests__/NotificationCenter.test.tsx
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import NotificationCenter from '../NotificationCenter';
+import type { NotificationEntry } from '../types/queue.types';
+
+const entry = (id: number, overrides: Partial<NotificationEntry> = {}): NotificationEntry => ({
+  id: `n-${id}`,
+  msg: `Message ${id}`,
+  ts: Date.now() - id * 1000,
+  type: 'error',
+  station: 'Station 1',
+  read: true,
+  ...overrides,
+});
+
+const renderCenter = (notifications: NotificationEntry[], showDropdown = true) => {
+  const handlers = {
+    onToggle: vi.fn(),
+    onClose: vi.fn(),
+    onClear: vi.fn(),
+    onMarkRead: vi.fn(),
+    onMarkAllRead: vi.fn(),
+    onDismiss: vi.fn(),
+    onAnimationEnd: vi.fn(),
+  };
+  render(
+    <NotificationCenter
+      notifications={notifications}
+      showDropdown={showDropdown}
+      bellAnimate={false}
+      {...handlers}
+    />
+  );
+  return handlers;
+};
+
+describe('NotificationCenter', () => {
+  it('counts only unread notifications on the badge', () => {
+    renderCenter([entry(1, { read: false }), entry(2), entry(3, { read: false })], false);
+
+    expect(screen.getByLabelText('Notifications, 2 unread')).toHaveTextContent('2');
+  });
+
+  it('marks an entry read when it is opened and dismisses single entries', async () => {
+    const user = userEvent.setup();
+    const handlers = renderCenter([entry(1, { read: false }), entry(2)]);
+
+    await user.click(screen.getByText('Message 1'));
+    expect(handlers.onMarkRead).toHaveBeenCalledWith('n-1');
+
+    await user.click(screen.getAllByRole('button', { name: 'Dismiss notification' })[1]);
+    expect(handlers.onDismiss).toHaveBeenCalledWith('n-2');
+    expect(handlers.onMarkRead).toHaveBeenCalledTimes(1);
+  });
+
+  it('filters by type and station', async () => {
+    const user = userEvent.setup();
+    renderCenter([
+      entry(1, { type: 'recall', msg: 'Missed at Station 1' }),
+      entry(2, { type: 'recall', station: 'Station 2', msg: 'Missed at Station 2' }),
+      entry(3, { msg: 'Failed to load' }),
+    ]);
+
+    await user.selectOptions(screen.getByLabelText('Filter by type'), 'Missed call');
+    expect(screen.queryByText('Failed to load')).not.toBeInTheDocument();
+    expect(screen.getByText('Missed at Station 2')).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText('Filter by station'), 'Station 1');
+    expect(screen.getByText('Missed at Station 1')).toBeInTheDocument();
+    expect(screen.queryByText('Missed at Station 2')).not.toBeInTheDocument();
+  });
+
+  it('pages through a long history', async () => {
+    const user = userEvent.setup();
+    renderCenter(Array.from({ length: 25 }, (_, i) => entry(i + 1)));
+
+    const list = screen.getByRole('list');
+    expect(within(list).getAllByRole('listitem')).toHaveLength(10);
+
+    await user.click(screen.getByRole('button', { name: 'Show older (15 more)' }));
+    expect(within(list).getAllByRole('listitem')).toHaveLength(20);
+
+    await user.click(screen.getByRole('button', { name: 'Show older (5 more)' }));
+    expect(within(list).getAllByRole('listitem')).toHaveLength(25);
+    expect(screen.queryByRole('button', { name: /Show older/ })).not.toBeInTheDocument();
+  });
+
+  it('closes on a click outside', async () => {
+    const user = userEvent.setup();
+    const handlers = renderCenter([entry(1)]);
+
+    await user.selectOptions(screen.getByLabelText('Filter by type'), 'Error');
+    expect(handlers.onClose).not.toHaveBeenCalled();
+
+    await user.click(document.body);
+    expect(handlers.onClose).toHaveBeenCalled();
+  });
+});
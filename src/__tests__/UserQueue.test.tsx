@@ -1,7 +1,7 @@
 // src/__tests__/UserQueue.test.tsx
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import type { Mock } from 'vitest';
-import { render, screen, waitFor, cleanup } from '@testing-library/react';
+import { render, screen, waitFor, cleanup, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import UserQueue from '../UserQueue';
@@ -12,21 +12,25 @@ vi.mock('../api', () => ({
   default: {
     get: vi.fn(),
     post: vi.fn(),
+    delete: vi.fn(),
   }
 }));
 
 vi.mock('../ablyUtils', () => ({
   initAbly: vi.fn(),
   subscribeToMyQueueUpdates: vi.fn(),
+  subscribeToBoardUpdates: vi.fn(),
   subscribeToChannel: vi.fn(),
   CHANNEL_NAMES: {
     QUEUE: (stationId: string) => `queue:${stationId}`,
     STATIONS: 'stations',
     MY_QUEUES: (userId: string) => `my-queues:${userId}`,
+    BOARD: (stationId: string) => `board:${stationId}`,
   },
   EVENT_NAMES: {
     QUEUE_UPDATE: 'queue:update',
     QUEUE_POP: 'queue:pop',
+    TICKET_RECALL: 'ticket:recall',
     STATION_UPDATE: 'station:update',
     STATION_CREATE: 'station:create',
     STATION_DELETE: 'station:delete',
@@ -54,7 +58,12 @@ vi.mock('../fallbackPolling', () => ({
 
 vi.mock('../hooks/useNotificationSound', () => ({
   useNotificationSound: vi.fn(() => ({
+    settings: { volume: 0.5, muted: false },
     playSound: vi.fn(),
+    playAlert: vi.fn(),
+    testSound: vi.fn(),
+    setVolume: vi.fn(),
+    setMuted: vi.fn(),
   })),
 }));
 
@@ -66,6 +75,9 @@ vi.mock('../hooks/useNotifications', () => ({
     setBellAnimate: vi.fn(),
     addNotifications: vi.fn(),
     clearNotifications: vi.fn(),
+    markRead: vi.fn(),
+    markAllRead: vi.fn(),
+    dismissNotification: vi.fn(),
     toggleDropdown: vi.fn(),
     hideDropdown: vi.fn(),
   })),
@@ -75,11 +87,11 @@ vi.mock('uuid', () => ({
   v4: vi.fn(() => 'test-user-id-123'),
 }));
 
-vi.mock('../utils/queueUtils', () => ({
+vi.mock('../utils/queueUtils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/queueUtils')>()),
   generateNotifications: vi.fn(() => []),
   validateQueueData: vi.fn((data) => Array.isArray(data)),
   getNotificationIcon: vi.fn(() => '🔔'),
-  calculateActualPosition: vi.fn((num) => num),
 }));
 
 vi.mock('../config/api.config', () => ({
@@ -104,8 +116,8 @@ const mockStations: Station[] = [
 ];
 
 const mockQueues: QueueItem[] = [
-  { stationId: 'station-1', stationName: 'Station 1', queueNumber: 101 },
-  { stationId: 'station-2', stationName: 'Station 2', queueNumber: 102 },
+  { stationId: 'station-1', stationName: 'Station 1', queueNumber: 101, actualPosition: 1 },
+  { stationId: 'station-2', stationName: 'Station 2', queueNumber: 102, actualPosition: 1 },
 ];
 
 describe('UserQueue', () => {
@@ -125,6 +137,9 @@ describe('UserQueue', () => {
       setBellAnimate: vi.fn(),
       addNotifications: vi.fn(),
       clearNotifications: vi.fn(),
+      markRead: vi.fn(),
+      markAllRead: vi.fn(),
+      dismissNotification: vi.fn(),
       toggleDropdown: vi.fn(),
       hideDropdown: vi.fn(),
     };
@@ -152,6 +167,9 @@ describe('UserQueue', () => {
     (ablyUtils.subscribeToChannel as Mock).mockImplementation(() => 
       Promise.resolve(unsubscribeFn)
     );
+    (ablyUtils.subscribeToBoardUpdates as Mock).mockImplementation(() =>
+      Promise.resolve(unsubscribeFn)
+    );
   });
 
   afterEach(() => {
@@ -297,6 +315,31 @@ describe('UserQueue', () => {
     });
   });
 
+  describe('Join Links', () => {
+    it('offers one-tap join for the linked station', async () => {
+      window.history.replaceState(null, '', '/join/station-2');
+      (api.post as Mock).mockResolvedValueOnce({ data: { queueNumber: 7 } });
+
+      render(<UserQueue joinStationId="station-2" />);
+
+      const joinButton = await screen.findByRole('button', { name: 'Join Station 2' });
+      expect(screen.getByLabelText(/Select a station/i)).toHaveValue('station-2');
+
+      await user.click(joinButton);
+
+      await waitFor(() => {
+        expect(api.post).toHaveBeenCalledWith('/queue/station-2');
+        expect(window.location.pathname).toBe('/');
+      });
+    });
+
+    it('warns when the linked station does not exist', async () => {
+      render(<UserQueue joinStationId="missing-station" />);
+
+      expect(await screen.findByText(/points to a station that no longer exists/i)).toBeInTheDocument();
+    });
+  });
+
   describe('Queue Display', () => {
     it('shows empty state when user has no queues', async () => {
       render(<UserQueue />);
@@ -321,6 +364,24 @@ describe('UserQueue', () => {
       });
     });
 
+    it('shows the estimated wait for waiting tickets', async () => {
+      (api.get as Mock).mockImplementation((url: string) => {
+        if (url === '/stations') return Promise.resolve({ data: mockStations });
+        if (url === '/my-queues') {
+          return Promise.resolve({
+            data: [{ ...mockQueues[0], actualPosition: 3, status: 'waiting', estimatedWaitSeconds: 720 }],
+          });
+        }
+        return Promise.reject(new Error('Unknown endpoint'));
+      });
+
+      render(<UserQueue />);
+
+      await waitFor(() => {
+        expect(screen.getByText('≈ 12 min wait')).toBeInTheDocument();
+      });
+    });
+
     it('shows queue number alert when station is selected', async () => {
       (api.get as Mock).mockImplementation((url: string) => {
         if (url === '/stations') return Promise.resolve({ data: mockStations });
@@ -347,6 +408,64 @@ describe('UserQueue', () => {
     });
   });
 
+  describe('Alert Preferences', () => {
+    it('saves the alert preference chosen for a queue', async () => {
+      (api.get as Mock).mockImplementation((url: string) => {
+        if (url === '/stations') return Promise.resolve({ data: mockStations });
+        if (url === '/my-queues') return Promise.resolve({ data: mockQueues });
+        return Promise.reject(new Error('Unknown endpoint'));
+      });
+
+      render(<UserQueue />);
+
+      const select = await screen.findByLabelText('Alerts for Station 1');
+      expect(select).toHaveValue('threshold:2');
+
+      await user.selectOptions(select, 'Only when called');
+
+      expect(select).toHaveValue('called');
+      expect(JSON.parse(localStorage.getItem('queueAlertPreferences') ?? '{}')).toEqual({
+        'station-1': { mode: 'called', peopleAhead: 2 },
+      });
+    });
+  });
+
+  describe('Leaving a Queue', () => {
+    beforeEach(() => {
+      (api.get as Mock).mockImplementation((url: string) => {
+        if (url === '/stations') return Promise.resolve({ data: mockStations });
+        if (url === '/my-queues') return Promise.resolve({ data: mockQueues });
+        return Promise.reject(new Error('Unknown endpoint'));
+      });
+    });
+
+    it('leaves a queue after confirmation', async () => {
+      window.confirm = vi.fn(() => true);
+      (api.delete as Mock).mockResolvedValueOnce({ data: { left: true, position: 101 } });
+
+      render(<UserQueue />);
+
+      const leaveButton = await screen.findByRole('button', { name: /Leave Station 1 queue/i });
+      await user.click(leaveButton);
+
+      expect(window.confirm).toHaveBeenCalled();
+      await waitFor(() => {
+        expect(api.delete).toHaveBeenCalledWith('/queue/station-1');
+      });
+    });
+
+    it('stays in the queue when confirmation is declined', async () => {
+      window.confirm = vi.fn(() => false);
+
+      render(<UserQueue />);
+
+      const leaveButton = await screen.findByRole('button', { name: /Leave Station 1 queue/i });
+      await user.click(leaveButton);
+
+      expect(api.delete).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Notifications', () => {
     it('toggles notification dropdown when bell is clicked', async () => {
       const mockHelpers = {
@@ -356,6 +475,9 @@ describe('UserQueue', () => {
         setBellAnimate: vi.fn(),
         addNotifications: vi.fn(),
         clearNotifications: vi.fn(),
+        markRead: vi.fn(),
+        markAllRead: vi.fn(),
+        dismissNotification: vi.fn(),
         toggleDropdown: vi.fn(),
         hideDropdown: vi.fn(),
       };
@@ -379,6 +501,9 @@ describe('UserQueue', () => {
         setBellAnimate: vi.fn(),
         addNotifications: vi.fn(),
         clearNotifications: vi.fn(),
+        markRead: vi.fn(),
+        markAllRead: vi.fn(),
+        dismissNotification: vi.fn(),
         toggleDropdown: vi.fn(),
         hideDropdown: vi.fn(),
       });
@@ -408,6 +533,209 @@ describe('UserQueue', () => {
         );
       });
     });
+
+    it('moves up in line from a pop on the station board channel', async () => {
+      (api.get as Mock).mockImplementation((url: string) => {
+        if (url === '/stations') return Promise.resolve({ data: mockStations });
+        if (url === '/my-queues') {
+          return Promise.resolve({
+            data: [{ ...mockQueues[0], queueNumber: 103, actualPosition: 3, status: 'waiting', estimatedWaitSeconds: 720, seq: 4 }],
+          });
+        }
+        if (url === '/queue/station-1/board') {
+          return Promise.resolve({
+            data: {
+              stationName: 'Station 1',
+              seq: 4,
+              queue: [
+                { position: 101, status: 'waiting' },
+                { position: 102, status: 'waiting' },
+                { position: 103, status: 'waiting' },
+              ],
+            },
+          });
+        }
+        return Promise.reject(new Error('Unknown endpoint'));
+      });
+      let popCallback: ((data: unknown) => void) | undefined;
+      (ablyUtils.subscribeToChannel as Mock).mockImplementation((channel: string, event: string, callback: (data: unknown) => void) => {
+        if (channel === 'board:station-1' && event === 'queue:pop') popCallback = callback;
+        return Promise.resolve(vi.fn());
+      });
+
+      render(<UserQueue />);
+      await waitFor(() => {
+        expect(screen.getByText(/3 in line/)).toBeInTheDocument();
+        expect(api.get).toHaveBeenCalledWith('/queue/station-1/board');
+        expect(popCallback).toBeDefined();
+      });
+      const myQueuesFetches = (api.get as Mock).mock.calls.filter(([url]) => url === '/my-queues').length;
+
+      act(() => popCallback?.({ position: 101, status: 'called', seq: 5 }));
+
+      await waitFor(() => {
+        expect(screen.getByText(/2 in line/)).toBeInTheDocument();
+        expect(screen.getByText('≈ 8 min wait')).toBeInTheDocument();
+      });
+      // Worked out locally, without asking the server again
+      expect((api.get as Mock).mock.calls.filter(([url]) => url === '/my-queues')).toHaveLength(myQueuesFetches);
+    });
+
+    it('keeps its subscriptions when another station is picked', async () => {
+      (api.get as Mock).mockImplementation((url: string) => {
+        if (url === '/stations') return Promise.resolve({ data: mockStations });
+        if (url === '/my-queues') return Promise.resolve({ data: mockQueues });
+        if (url === '/queue/station-1/board') return Promise.resolve({ data: { stationName: 'Station 1', seq: 1, queue: [] } });
+        return Promise.reject(new Error('Unknown endpoint'));
+      });
+
+      render(<UserQueue />);
+      await waitFor(() => {
+        expect(ablyUtils.subscribeToMyQueueUpdates).toHaveBeenCalled();
+        expect(ablyUtils.subscribeToChannel).toHaveBeenCalledWith('board:station-1', expect.any(String), expect.any(Function));
+      });
+      const subscribeCounts = () => [
+        (ablyUtils.subscribeToMyQueueUpdates as Mock).mock.calls.length,
+        (ablyUtils.subscribeToChannel as Mock).mock.calls.length,
+        (api.get as Mock).mock.calls.filter(([url]) => url === '/my-queues').length,
+      ];
+      const before = subscribeCounts();
+
+      await user.selectOptions(screen.getByLabelText(/Select a station/i), 'station-1');
+      await user.selectOptions(screen.getByLabelText(/Select a station/i), 'station-2');
+
+      expect(subscribeCounts()).toEqual(before);
+    });
+
+    it('reloads its tickets when the connection comes back', async () => {
+      const listeners: ((state: string) => void)[] = [];
+      (ablyUtils.addConnectionStateListener as Mock).mockImplementation((listener: (state: string) => void) => {
+        listeners.push(listener);
+        listener('connected');
+      });
+
+      render(<UserQueue />);
+      await waitFor(() => expect(api.get).toHaveBeenCalledWith('/my-queues'));
+      const fetchCount = (api.get as Mock).mock.calls.filter(([url]) => url === '/my-queues').length;
+
+      act(() => {
+        listeners.forEach(listener => listener('disconnected'));
+        listeners.forEach(listener => listener('connected'));
+      });
+
+      await waitFor(() => {
+        expect((api.get as Mock).mock.calls.filter(([url]) => url === '/my-queues').length).toBeGreaterThan(fetchCount);
+      });
+    });
+  });
+
+  describe('Offline Snapshot', () => {
+    const setOnline = (online: boolean) => {
+      Object.defineProperty(navigator, 'onLine', { value: online, configurable: true });
+    };
+
+    afterEach(() => setOnline(true));
+
+    it('stores the tickets it loaded for offline use', async () => {
+      (api.get as Mock).mockImplementation((url: string) => {
+        if (url === '/stations') return Promise.resolve({ data: mockStations });
+        if (url === '/my-queues') return Promise.resolve({ data: mockQueues });
+        return Promise.reject(new Error('Unknown endpoint'));
+      });
+
+      render(<UserQueue />);
+
+      await waitFor(() => {
+        const snapshot = JSON.parse(localStorage.getItem('myQueuesSnapshot') ?? 'null');
+        expect(snapshot.queues).toEqual(mockQueues);
+        expect(typeof snapshot.savedAt).toBe('number');
+      });
+    });
+
+    it('shows the last known tickets with their time while offline', async () => {
+      const savedAt = new Date(2025, 6, 1, 9, 30).getTime();
+      localStorage.setItem('myQueuesSnapshot', JSON.stringify({ queues: mockQueues, savedAt }));
+      setOnline(false);
+      (api.get as Mock).mockRejectedValue(new Error('Network Error'));
+
+      render(<UserQueue />);
+
+      await waitFor(() => expect(api.get).toHaveBeenCalledWith('/my-queues'));
+      expect(screen.getByText('101')).toBeInTheDocument();
+      expect(screen.getByText(/You are offline/)).toBeInTheDocument();
+      expect(screen.getByText(new Date(savedAt).toLocaleString())).toBeInTheDocument();
+      expect(useNotifications().addNotifications).not.toHaveBeenCalled();
+    });
+
+    it('still renders when storage cannot be read', async () => {
+      const getItem = Storage.prototype.getItem;
+      vi.spyOn(Storage.prototype, 'getItem').mockImplementation(function (this: Storage, key: string) {
+        if (key === 'myQueuesSnapshot') throw new DOMException('Storage is disabled', 'SecurityError');
+        return getItem.call(this, key);
+      });
+
+      render(<UserQueue />);
+
+      expect(screen.getByText('My Queues')).toBeInTheDocument();
+      await waitFor(() => expect(api.get).toHaveBeenCalledWith('/my-queues'));
+    });
+
+    it('resyncs its tickets when the browser comes back online', async () => {
+      render(<UserQueue />);
+      await waitFor(() => expect(api.get).toHaveBeenCalledWith('/my-queues'));
+      const fetchCount = (api.get as Mock).mock.calls.filter(([url]) => url === '/my-queues').length;
+
+      act(() => {
+        window.dispatchEvent(new Event('online'));
+      });
+
+      await waitFor(() => {
+        expect((api.get as Mock).mock.calls.filter(([url]) => url === '/my-queues').length).toBeGreaterThan(fetchCount);
+      });
+    });
+  });
+
+  describe('Claim Codes', () => {
+    it('shows the claim code with the tickets', async () => {
+      (api.get as Mock).mockImplementation((url: string) => {
+        if (url === '/stations') return Promise.resolve({ data: mockStations });
+        if (url === '/my-queues') return Promise.resolve({ data: mockQueues });
+        if (url === '/claim-code') return Promise.resolve({ data: { code: '7KQ2MXPA', expiresAt: '2099-01-01T00:00:00.000Z' } });
+        return Promise.reject(new Error('Unknown endpoint'));
+      });
+
+      render(<UserQueue />);
+
+      expect(await screen.findByText('7KQ2-MXPA')).toBeInTheDocument();
+    });
+
+    it('claims tickets from another device and reloads the list', async () => {
+      (api.post as Mock).mockResolvedValue({ data: { claimed: 2 } });
+      render(<UserQueue />);
+      await waitFor(() => expect(api.get).toHaveBeenCalledWith('/my-queues'));
+      const fetchCount = (api.get as Mock).mock.calls.filter(([url]) => url === '/my-queues').length;
+
+      await user.click(screen.getByText(/Move my tickets from another device/));
+      await user.type(screen.getByLabelText(/Claim code shown with your tickets/), '7kq2-mxpa');
+      await user.click(screen.getByRole('button', { name: 'Claim Tickets' }));
+
+      expect(api.post).toHaveBeenCalledWith('/claim-code/redeem', { code: '7kq2-mxpa' });
+      expect(await screen.findByText('Moved 2 tickets to this device.')).toBeInTheDocument();
+      await waitFor(() => {
+        expect((api.get as Mock).mock.calls.filter(([url]) => url === '/my-queues').length).toBeGreaterThan(fetchCount);
+      });
+    });
+
+    it('shows why a claim was refused', async () => {
+      (api.post as Mock).mockRejectedValue({ response: { status: 429, data: { error: 'Too many attempts, please try again later' } } });
+      render(<UserQueue />);
+
+      await user.click(screen.getByText(/Move my tickets from another device/));
+      await user.type(screen.getByLabelText(/Claim code shown with your tickets/), '7KQ2MXPA');
+      await user.click(screen.getByRole('button', { name: 'Claim Tickets' }));
+
+      expect(await screen.findByText('Too many attempts, please try again later')).toBeInTheDocument();
+    });
   });
 
   describe('Error Handling', () => {
@@ -419,6 +747,9 @@ describe('UserQueue', () => {
         setBellAnimate: vi.fn(),
         addNotifications: vi.fn(),
         clearNotifications: vi.fn(),
+        markRead: vi.fn(),
+        markAllRead: vi.fn(),
+        dismissNotification: vi.fn(),
         toggleDropdown: vi.fn(),
         hideDropdown: vi.fn(),
       };
@@ -453,6 +784,9 @@ describe('UserQueue', () => {
         setBellAnimate: vi.fn(),
         addNotifications: vi.fn(),
         clearNotifications: vi.fn(),
+        markRead: vi.fn(),
+        markAllRead: vi.fn(),
+        dismissNotification: vi.fn(),
         toggleDropdown: vi.fn(),
         hideDropdown: vi.fn(),
       };
@@ -0,0 +1,164 @@
+// src/__tests__/apiClient.test.tsx
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('../ablyUtils', () => ({
+  initAbly: vi.fn(() => Promise.resolve(null)),
+}));
+
+type Reply = { status: number; data?: unknown; headers?: Record<string, string> } | 'network-error';
+
+interface RequestConfig {
+  headers: Record<string, unknown>;
+  validateStatus?: (status: number) => boolean;
+}
+
+// Stands in for the HTTP adapter: answers each request with the next reply and records what was sent.
+// Failures carry the config and response the way axios errors do.
+const createServer = (...replies: Reply[]) => {
+  const requests: RequestConfig[] = [];
+  const adapter = async (config: RequestConfig) => {
+    requests.push({ ...config, headers: { ...config.headers } });
+    const reply = replies.shift() ?? { status: 200 };
+    if (reply === 'network-error') {
+      throw Object.assign(new Error('Network Error'), { config });
+    }
+    const response = { data: reply.data ?? {}, status: reply.status, statusText: '', headers: reply.headers ?? {}, config };
+    if (!config.validateStatus?.(reply.status)) {
+      throw Object.assign(new Error(`Request failed with status code ${reply.status}`), { config, response });
+    }
+    return response;
+  };
+  return { adapter, requests };
+};
+
+// The client keeps the server's idempotency support and its ETags at module level, so each test loads a fresh copy
+const loadApi = async (...replies: Reply[]) => {
+  vi.resetModules();
+  const { default: api } = await import('../api');
+  const server = createServer(...replies);
+  (api.defaults as { adapter?: unknown }).adapter = server.adapter;
+  return { api, requests: server.requests };
+};
+
+describe('api client', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    // Keep the backoff short so retries run straight away
+    vi.stubEnv('VITE_API_RETRY_DELAY', '1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('idempotency keys', () => {
+    it('sends the user id on every request and a key on writes only', async () => {
+      const { api, requests } = await loadApi({ status: 200 }, { status: 200 });
+
+      await api.get('/stations');
+      await api.post('/queue/station-1');
+
+      expect(requests[0].headers['x-user-id']).toEqual(localStorage.getItem('userId'));
+      expect(requests[0].headers['Idempotency-Key']).toBeUndefined();
+      expect(requests[1].headers['Idempotency-Key']).toEqual(expect.any(String));
+    });
+
+    it('retries a lost join with the same key once the server has said it replays keys', async () => {
+      const { api, requests } = await loadApi(
+        { status: 200, headers: { 'idempotency-supported': 'true' } },
+        'network-error',
+        { status: 200, data: { queueNumber: 104 } }
+      );
+
+      await api.get('/stations');
+      const res = await api.post('/queue/station-1');
+
+      expect(res.data).toEqual({ queueNumber: 104 });
+      expect(requests).toHaveLength(3);
+      expect(requests[2].headers['Idempotency-Key']).toBe(requests[1].headers['Idempotency-Key']);
+    });
+
+    it('does not retry a lost join before the server has said it replays keys', async () => {
+      const { api, requests } = await loadApi('network-error');
+
+      await expect(api.post('/queue/station-1')).rejects.toThrow('Network Error');
+      expect(requests).toHaveLength(1);
+    });
+  });
+
+  describe('conditional requests', () => {
+    it('sends the last ETag and answers a 304 with the cached body', async () => {
+      const stations = [{ id: 'station-1', name: 'Cashier' }];
+      const { api, requests } = await loadApi(
+        { status: 200, data: stations, headers: { etag: '"v1"' } },
+        { status: 304, data: '' }
+      );
+
+      await api.get('/stations');
+      const res = await api.get('/stations');
+
+      expect(requests[0].headers['If-None-Match']).toBeUndefined();
+      expect(requests[1].headers['If-None-Match']).toBe('"v1"');
+      expect(res.status).toBe(304);
+      expect(res.data).toEqual(stations);
+    });
+
+    it('keeps ETags per URL and query', async () => {
+      const { api, requests } = await loadApi(
+        { status: 200, data: { queue: [] }, headers: { etag: '"a"' } },
+        { status: 200, data: { queue: [] } }
+      );
+
+      await api.get('/queue/station-1', { params: { managerId: 'mgr-1' } });
+      await api.get('/queue/station-1', { params: { managerId: 'mgr-2' } });
+
+      expect(requests[1].headers['If-None-Match']).toBeUndefined();
+    });
+  });
+
+  describe('retries', () => {
+    it('retries reads on server errors but not on client errors', async () => {
+      const { api, requests } = await loadApi({ status: 503 }, { status: 200, data: [] }, { status: 404 });
+
+      await expect(api.get('/stations')).resolves.toMatchObject({ data: [] });
+      await expect(api.get('/queue/missing')).rejects.toThrow('404');
+      expect(requests).toHaveLength(3);
+    });
+
+    it('retries a keyed write while the first attempt is still in progress', async () => {
+      const { api, requests } = await loadApi(
+        { status: 409, data: { reason: 'InProgress' }, headers: { 'retry-after': '1' } },
+        { status: 200, data: { queueNumber: 104 } }
+      );
+
+      await expect(api.post('/queue/station-1')).resolves.toMatchObject({ data: { queueNumber: 104 } });
+      expect(requests).toHaveLength(2);
+      expect(requests[1].headers['Idempotency-Key']).toBe(requests[0].headers['Idempotency-Key']);
+    });
+
+    it('does not retry a keyed write on any other answer, even with Retry-After', async () => {
+      const { api, requests } = await loadApi(
+        { status: 429, data: { error: 'Too many attempts' }, headers: { 'retry-after': '900' } },
+        { status: 409, data: { error: 'Already being served' }, headers: { 'retry-after': '1' } },
+        { status: 500 }
+      );
+
+      await expect(api.post('/claim-code/redeem', { code: '7KQ2MXPA' })).rejects.toThrow('429');
+      await expect(api.post('/queue/station-1/acknowledge')).rejects.toThrow('409');
+      await expect(api.post('/queue/station-1')).rejects.toThrow('500');
+      expect(requests).toHaveLength(3);
+    });
+
+    it('retries a rate-limited read only when the limit ends within the backoff', async () => {
+      const { api, requests } = await loadApi(
+        { status: 429, headers: { 'retry-after': '0' } },
+        { status: 200, data: [] },
+        { status: 429, headers: { 'retry-after': '900' } }
+      );
+
+      await expect(api.get('/stations')).resolves.toMatchObject({ data: [] });
+      await expect(api.get('/my-queues')).rejects.toThrow('429');
+      expect(requests).toHaveLength(3);
+    });
+  });
+});
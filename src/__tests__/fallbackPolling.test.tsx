@@ -0,0 +1,137 @@
+// src/__tests__/fallbackPolling.test.tsx
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Mock } from 'vitest';
+
+vi.mock('../api', () => ({
+  default: {
+    get: vi.fn(),
+  }
+}));
+
+import api from '../api';
+import FallbackPoller, {
+  addPollingStatusListener,
+  createMyQueuesPoller,
+  createQueuePoller,
+  createStationsPoller,
+  removePollingStatusListener,
+  POLLING_INTERVALS,
+  type PollingStatus,
+} from '../fallbackPolling';
+
+const setVisibility = (state: DocumentVisibilityState) => {
+  Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('FallbackPoller', () => {
+  let poller: FallbackPoller | null = null;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setVisibility('visible');
+  });
+
+  afterEach(() => {
+    poller?.stop();
+    poller = null;
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('backs off on repeated errors and recovers after a success', async () => {
+    const pollFunction = vi.fn().mockRejectedValue(new Error('down'));
+    poller = new FallbackPoller(pollFunction);
+
+    poller.start(POLLING_INTERVALS.NORMAL);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(poller.getStatus()).toEqual({ mode: 'backoff', intervalMs: 10000 });
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(pollFunction).toHaveBeenCalledTimes(2);
+    expect(poller.getStatus()).toEqual({ mode: 'backoff', intervalMs: 20000 });
+
+    pollFunction.mockResolvedValue(undefined);
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(poller.getStatus()).toEqual({ mode: 'normal', intervalMs: POLLING_INTERVALS.NORMAL });
+  });
+
+  it('slows down while the page is hidden and polls right away when it is shown again', async () => {
+    const pollFunction = vi.fn().mockResolvedValue(undefined);
+    poller = new FallbackPoller(pollFunction);
+
+    poller.start(POLLING_INTERVALS.NORMAL);
+    await vi.advanceTimersByTimeAsync(0);
+
+    setVisibility('hidden');
+    expect(poller.getStatus()).toEqual({ mode: 'hidden', intervalMs: POLLING_INTERVALS.HIDDEN });
+    await vi.advanceTimersByTimeAsync(POLLING_INTERVALS.NORMAL);
+    expect(pollFunction).toHaveBeenCalledTimes(1);
+
+    setVisibility('visible');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(pollFunction).toHaveBeenCalledTimes(2);
+  });
+
+  it('polls right away when the browser comes back online', async () => {
+    const pollFunction = vi.fn().mockResolvedValue(undefined);
+    poller = new FallbackPoller(pollFunction);
+
+    poller.start(POLLING_INTERVALS.SLOW);
+    await vi.advanceTimersByTimeAsync(0);
+    window.dispatchEvent(new Event('online'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(pollFunction).toHaveBeenCalledTimes(2);
+  });
+
+  it('speeds up while a ticket is near the front of its queue', async () => {
+    (api.get as Mock).mockResolvedValue({
+      status: 200,
+      data: [{ stationId: 'station-1', stationName: 'Station 1', queueNumber: 104, actualPosition: 2, status: 'waiting' }],
+    });
+    const onUpdate = vi.fn();
+    poller = createMyQueuesPoller(onUpdate);
+
+    poller.start(POLLING_INTERVALS.NORMAL);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    expect(poller.getStatus()).toEqual({ mode: 'urgent', intervalMs: POLLING_INTERVALS.FAST });
+  });
+
+  it('skips updates when the server answers 304 Not Modified', async () => {
+    // The api client fills a 304 in with the cached body, which the pollers have already applied
+    (api.get as Mock).mockResolvedValue({ status: 304, data: [] });
+    const onUpdate = vi.fn();
+    const pollers = [
+      createMyQueuesPoller(onUpdate),
+      createStationsPoller(onUpdate),
+      createQueuePoller('station-1', null, onUpdate),
+    ];
+
+    pollers.forEach(p => p.start(POLLING_INTERVALS.NORMAL));
+    await vi.advanceTimersByTimeAsync(0);
+    pollers.forEach(p => p.stop());
+
+    expect(api.get).toHaveBeenCalledWith('/my-queues');
+    expect(api.get).toHaveBeenCalledWith('/stations');
+    expect(api.get).toHaveBeenCalledWith('/queue/station-1/board');
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+
+  it('reports the fastest running poller to status listeners', async () => {
+    const listener = vi.fn<[PollingStatus | null], void>();
+    addPollingStatusListener(listener);
+    expect(listener).toHaveBeenLastCalledWith(null);
+
+    poller = new FallbackPoller(vi.fn().mockResolvedValue(undefined));
+    poller.start(POLLING_INTERVALS.SLOW);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(listener).toHaveBeenLastCalledWith({ mode: 'normal', intervalMs: POLLING_INTERVALS.SLOW });
+
+    poller.stop();
+    expect(listener).toHaveBeenLastCalledWith(null);
+    removePollingStatusListener(listener);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { generateNotifications } from '../utils/queueUtils';
+import type { QueueItem } from '../types/queue.types';
+
+const ticket = (actualPosition: number, status: QueueItem['status'] = 'waiting'): QueueItem => ({
+  stationId: 'station-1',
+  stationName: 'Station 1',
+  queueNumber: 105,
+  actualPosition,
+  status,
+});
+
+describe('generateNotifications', () => {
+  it('stays quiet until the default threshold, then escalates once', () => {
+    expect(generateNotifications([ticket(6)], [ticket(5)])).toEqual([]);
+
+    const [alert] = generateNotifications([ticket(4)], [ticket(3)]);
+    expect(alert).toEqual(expect.objectContaining({
+      type: 'position',
+      escalate: true,
+      msg: 'Only 2 people ahead of you in "Station 1" queue. Please get ready.',
+    }));
+
+    expect(generateNotifications([ticket(3)], [ticket(2)])).toEqual([]);
+  });
+
+  it('reports every move in "all" mode and escalates at its threshold', () => {
+    const preferences = { 'station-1': { mode: 'all' as const, peopleAhead: 0 } };
+
+    const [move] = generateNotifications([ticket(6)], [ticket(5)], preferences);
+    expect(move).toEqual(expect.objectContaining({ type: 'position', queueNumber: 5 }));
+    expect(move.escalate).toBeUndefined();
+
+    const [next] = generateNotifications([ticket(2)], [ticket(1)], preferences);
+    expect(next).toEqual(expect.objectContaining({ escalate: true, msg: 'You are next in "Station 1" queue. Please get ready.' }));
+  });
+
+  it('only reports the call in "called" mode', () => {
+    const preferences = { 'station-1': { mode: 'called' as const, peopleAhead: 2 } };
+
+    expect(generateNotifications([ticket(4)], [ticket(3)], preferences)).toEqual([]);
+    expect(generateNotifications([ticket(1)], [ticket(0, 'called')], preferences)).toEqual([
+      expect.objectContaining({ type: 'called', escalate: true }),
+    ]);
+  });
+
+  it('says nothing for a muted queue', () => {
+    const preferences = { 'station-1': { mode: 'mute' as const, peopleAhead: 2 } };
+
+    expect(generateNotifications([ticket(4)], [ticket(3)], preferences)).toEqual([]);
+    expect(generateNotifications([ticket(1)], [ticket(0, 'called')], preferences)).toEqual([]);
+    expect(generateNotifications([ticket(4)], [], preferences)).toEqual([]);
+  });
+});
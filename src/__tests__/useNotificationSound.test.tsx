@@ -0,0 +1,127 @@
+// src/__tests__/useNotificationSound.test.tsx
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, renderHook, act, cleanup } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+
+// Records what would be played instead of making any sound
+class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+  state: AudioContextState = 'running';
+  currentTime = 0;
+  destination = {};
+  oscillators: { type: string; frequency: { value: number } }[] = [];
+  peakGains: number[] = [];
+
+  constructor() {
+    FakeAudioContext.instances.push(this);
+  }
+
+  resume = vi.fn(async () => {
+    this.state = 'running';
+  });
+
+  createOscillator() {
+    const oscillator = { type: 'sine', frequency: { value: 0 }, connect: vi.fn(), disconnect: vi.fn(), start: vi.fn(), stop: vi.fn(), onended: null };
+    this.oscillators.push(oscillator);
+    return oscillator;
+  }
+
+  createGain() {
+    return {
+      gain: {
+        setValueAtTime: vi.fn(),
+        exponentialRampToValueAtTime: vi.fn((value: number) => {
+          if (value > 0.001) this.peakGains.push(value);
+        }),
+      },
+      connect: vi.fn(),
+      disconnect: vi.fn(),
+    };
+  }
+}
+
+// The shared context and the settings live at module level, so each test loads fresh copies
+const loadModules = async () => {
+  vi.resetModules();
+  const { useNotificationSound } = await import('../hooks/useNotificationSound');
+  const { default: SoundSettings } = await import('../SoundSettings');
+  return { useNotificationSound, SoundSettings };
+};
+
+describe('useNotificationSound', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    FakeAudioContext.instances = [];
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('plays a distinct tone per event type on one shared AudioContext', async () => {
+    const { useNotificationSound } = await loadModules();
+    const { result } = renderHook(() => useNotificationSound());
+
+    act(() => result.current.playSound('position'));
+    act(() => result.current.playSound('called'));
+    act(() => result.current.playSound('error'));
+
+    expect(FakeAudioContext.instances).toHaveLength(1);
+    const { oscillators } = FakeAudioContext.instances[0];
+    expect(oscillators.map(o => o.frequency.value)).toEqual([660, 880, 784, 988, 1175, 220, 220]);
+    expect(oscillators.slice(-1)[0].type).toBe('square');
+  });
+
+  it('follows the volume and mute settings and remembers them', async () => {
+    const { useNotificationSound } = await loadModules();
+    const { result } = renderHook(() => useNotificationSound());
+
+    act(() => result.current.setVolume(0.5));
+    act(() => result.current.playSound('position'));
+    expect(FakeAudioContext.instances[0].peakGains).toEqual([0.15, 0.15]);
+
+    act(() => result.current.setMuted(true));
+    act(() => result.current.playSound('called'));
+    expect(FakeAudioContext.instances[0].oscillators).toHaveLength(2);
+    expect(result.current.settings).toEqual({ volume: 0.5, muted: true });
+    expect(JSON.parse(localStorage.getItem('notificationSoundSettings') ?? '{}')).toEqual({ volume: 0.5, muted: true });
+  });
+
+  it('resumes a suspended context on the first user gesture', async () => {
+    const { useNotificationSound } = await loadModules();
+    renderHook(() => useNotificationSound());
+
+    document.dispatchEvent(new Event('pointerdown'));
+
+    expect(FakeAudioContext.instances).toHaveLength(1);
+    expect(FakeAudioContext.instances[0].resume).toHaveBeenCalled();
+  });
+});
+
+describe('SoundSettings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    FakeAudioContext.instances = [];
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('previews a tone even while sounds are off', async () => {
+    const user = userEvent.setup();
+    const { SoundSettings } = await loadModules();
+    render(<SoundSettings />);
+
+    await user.click(screen.getByLabelText('Play notification sounds'));
+    expect(screen.getByLabelText('Play notification sounds')).not.toBeChecked();
+
+    await user.click(screen.getByRole('button', { name: '▶ Called' }));
+    expect(FakeAudioContext.instances[0].oscillators.map(o => o.frequency.value)).toEqual([784, 988, 1175]);
+  });
+});
@@ -0,0 +1,65 @@
+// src/__tests__/useNotifications.test.tsx
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useNotifications } from '../hooks/useNotifications';
+import type { Notification } from '../types/queue.types';
+
+const playSound = vi.fn();
+
+vi.mock('../hooks/useNotificationSound', () => ({
+  useNotificationSound: () => ({ playSound, playAlert: vi.fn() }),
+}));
+
+const moved = (position: number, ts = Date.now()): Notification => ({
+  msg: `You moved up in "Station 1" queue! Now position ${position} in line.`,
+  ts,
+  type: 'position',
+  station: 'Station 1',
+  queueNumber: position,
+});
+
+describe('useNotifications', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    playSound.mockClear();
+  });
+
+  it('collapses the same event arriving from realtime and from polling', () => {
+    const { result } = renderHook(() => useNotifications());
+
+    act(() => result.current.addNotifications([moved(4)]));
+    act(() => result.current.addNotifications([moved(4)]));
+
+    expect(result.current.notifications).toHaveLength(1);
+    expect(playSound).toHaveBeenCalledTimes(1);
+
+    act(() => result.current.addNotifications([moved(3)]));
+    expect(result.current.notifications).toHaveLength(2);
+  });
+
+  it('tracks read state and dismisses single entries', () => {
+    const { result } = renderHook(() => useNotifications());
+    act(() => result.current.addNotifications([moved(4)]));
+    act(() => result.current.addNotifications([moved(3)]));
+
+    const [newest, older] = result.current.notifications;
+    expect(newest.read).toBe(false);
+
+    act(() => result.current.markRead(newest.id));
+    expect(result.current.notifications.map(n => n.read)).toEqual([true, false]);
+
+    act(() => result.current.dismissNotification(older.id));
+    expect(result.current.notifications.map(n => n.id)).toEqual([newest.id]);
+    expect(JSON.parse(localStorage.getItem('queueNotifications') ?? '[]')).toHaveLength(1);
+  });
+
+  it('keeps history saved before entries had ids, as read', () => {
+    localStorage.setItem('queueNotifications', JSON.stringify([moved(5, 1000)]));
+
+    const { result } = renderHook(() => useNotifications());
+
+    expect(result.current.notifications).toEqual([
+      expect.objectContaining({ queueNumber: 5, read: true, id: expect.any(String) }),
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { parseRoute, buildPath, navigate, useRoute } from '../hooks/useRoute';
+
+describe('parseRoute', () => {
+  it('maps deep links to views', () => {
+    expect(parseRoute('/')).toEqual({ view: 'user' });
+    expect(parseRoute('/join/station-1')).toEqual({ view: 'user', joinStationId: 'station-1' });
+    expect(parseRoute('/station/station-1')).toEqual({ view: 'person', stationId: 'station-1' });
+    expect(parseRoute('/station')).toEqual({ view: 'person', stationId: undefined });
+    expect(parseRoute('/admin/')).toEqual({ view: 'admin' });
+    expect(parseRoute('/board', '?stations=a,b')).toEqual({ view: 'board' });
+  });
+
+  it('keeps old ?view=board bookmarks working', () => {
+    expect(parseRoute('/', '?view=board&stations=a')).toEqual({ view: 'board' });
+  });
+
+  it('falls back to the user view for unknown paths', () => {
+    expect(parseRoute('/join')).toEqual({ view: 'user' });
+    expect(parseRoute('/nowhere')).toEqual({ view: 'user' });
+  });
+});
+
+describe('buildPath', () => {
+  it('round-trips through parseRoute', () => {
+    const path = buildPath({ view: 'person', stationId: 'a b/c' });
+    expect(path).toBe('/station/a%20b%2Fc');
+    expect(parseRoute(path)).toEqual({ view: 'person', stationId: 'a b/c' });
+  });
+});
+
+describe('useRoute', () => {
+  it('follows navigate and the back button', () => {
+    window.history.replaceState(null, '', '/');
+    const { result } = renderHook(() => useRoute());
+    expect(result.current).toEqual({ view: 'user' });
+
+    act(() => navigate('/station/station-1', { state: { managerId: 'mgr-1' } }));
+    expect(result.current).toEqual({ view: 'person', stationId: 'station-1' });
+    expect(window.history.state).toEqual({ managerId: 'mgr-1' });
+
+    act(() => {
+      window.history.replaceState(null, '', '/admin');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+    expect(result.current).toEqual({ view: 'admin' });
+  });
+});
@@ -1,25 +1,32 @@
-import * as Ably from 'ably';
 import { getApiBaseUrl } from './config/api.config';
+import { AblyTransport } from './realtime/ablyTransport';
+import { SseTransport, isSseToken } from './realtime/sseTransport';
+import type { RealtimeConnectionState, RealtimeToken, RealtimeTransport } from './types/realtime.types';
 
 // Channel names for different entities
 export const CHANNEL_NAMES = {
   QUEUE: (stationId: string) => `queue:${stationId}`,
   STATIONS: 'stations',
   MY_QUEUES: (userId: string) => `my-queues:${userId}`,
+  BOARD: (stationId: string) => `board:${stationId}`,
 };
 
 // Event names for actions
 export const EVENT_NAMES = {
   QUEUE_UPDATE: 'queue:update',
   QUEUE_POP: 'queue:pop',
+  TICKET_RECALL: 'ticket:recall',
   STATION_UPDATE: 'station:update',
   STATION_CREATE: 'station:create',
   STATION_DELETE: 'station:delete',
 };
 
-let ably: Ably.Realtime | null = null;
+// The active realtime connection: Ably, or the backend's own SSE stream when the server
+// runs with REALTIME_TRANSPORT=sse. The server picks; the token it issues tells us which.
+let transport: RealtimeTransport | null = null;
+let initPromise: Promise<RealtimeTransport | null> | null = null;
 let clientId = '';
-let connectionState: 'connected' | 'connecting' | 'disconnected' | 'failed' = 'disconnected';
+let connectionState: RealtimeConnectionState = 'disconnected';
 let reconnectAttempts = 0;
 const MAX_RECONNECT_ATTEMPTS = 5;
 const RECONNECT_DELAY_BASE = 1000; // 1 second base delay
@@ -40,8 +47,8 @@ export const removeConnectionStateListener = (listener: (state: string) => void)
   }
 };
 
-const notifyConnectionStateChange = (state: string) => {
-  connectionState = state as typeof connectionState;
+const notifyConnectionStateChange = (state: RealtimeConnectionState) => {
+  connectionState = state;
   connectionStateListeners.forEach(listener => {
     try {
       listener(state);
@@ -51,33 +58,53 @@ const notifyConnectionStateChange = (state: string) => {
   });
 };
 
-// Get Ably API key from the backend with retry mechanism
-export const getAblyApiKey = async (retries = 3, delay = 1000): Promise<string | null> => {
+// Stations this client manages, sent with every token request so renewals keep access to queue:<id>
+const managerGrants = new Map<string, string>();
+
+// Ask the backend for credentials scoped to this client's channels
+export const requestRealtimeToken = async (): Promise<RealtimeToken> => {
+  const baseUrl = getApiBaseUrl();
+  const response = await fetch(`${baseUrl}/realtime/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(clientId ? { 'x-user-id': clientId } : {}),
+    },
+    body: JSON.stringify({
+      managers: [...managerGrants].map(([stationId, managerId]) => ({ stationId, managerId })),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch realtime token: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+};
+
+// Let this client follow a station's full queue. The server only grants it if the manager ID matches,
+// so the current connection is re-authorised to pick up the new capability.
+export const grantStationAccess = async (stationId: string, managerId: string) => {
+  if (managerGrants.get(stationId) === managerId) return;
+  managerGrants.set(stationId, managerId);
+
+  if (!transport) return; // The first token will include it
   try {
-    const baseUrl = getApiBaseUrl();
-    // Explicitly request the frontend key
-    const response = await fetch(`${baseUrl}/config/ably-key?frontend=true`);
-    
-    if (!response.ok) {
-      if (retries > 0) {
-        console.log(`Retrying fetch Ably API key (${retries} attempts left)...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return getAblyApiKey(retries - 1, delay * 1.5);
-      }
-      throw new Error(`Failed to fetch Ably API key: ${response.status} ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    if (!data.key) {
-      throw new Error('Ably API key not found in response');
-    }
-    return data.key;
+    await transport.reauthorize();
   } catch (error) {
-    console.error('Error fetching Ably API key:', error);
-    return null;
+    console.error(`Error re-authorising realtime access for station ${stationId}:`, error);
   }
 };
 
+const closeTransport = () => {
+  if (!transport) return;
+  try {
+    transport.close();
+  } catch (error) {
+    console.warn('Error closing existing realtime connection:', error);
+  }
+  transport = null;
+};
+
 // Exponential backoff reconnection logic
 const scheduleReconnect = async (userId: string) => {
   if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
@@ -94,107 +121,86 @@ const scheduleReconnect = async (userId: string) => {
   
   await new Promise(resolve => setTimeout(resolve, delay));
   
-  // Reset ably instance to force recreation
-  if (ably) {
-    try {
-      ably.close();
-    } catch (error) {
-      console.warn('Error closing existing Ably connection:', error);
-    }
-    ably = null;
-  }
+  // Reset the transport to force recreation
+  closeTransport();
   
   return initAbly(userId);
 };
 
-// Initialize the Ably client with improved error handling and reconnection
+const handleTransportState = (state: RealtimeConnectionState) => {
+  if (state === 'connected') {
+    reconnectAttempts = 0; // Reset on successful connection
+  }
+  notifyConnectionStateChange(state);
+
+  if (state === 'failed') {
+    // Schedule reconnection
+    setTimeout(() => {
+      if (clientId) {
+        scheduleReconnect(clientId);
+      }
+    }, 1000);
+  }
+};
+
+const createTransport = async (): Promise<RealtimeTransport | null> => {
+  let initialToken: RealtimeToken;
+  try {
+    initialToken = await requestRealtimeToken();
+  } catch (error) {
+    console.error('Failed to initialize realtime connection: no token available', error);
+    notifyConnectionStateChange('failed');
+    return null;
+  }
+
+  const options = { initialToken, requestToken: requestRealtimeToken, onStateChange: handleTransportState };
+  if (isSseToken(initialToken)) {
+    console.log('Using the Server-Sent Events realtime transport');
+    return new SseTransport(getApiBaseUrl(), options);
+  }
+  return new AblyTransport(clientId, options);
+};
+
+// Initialize the realtime connection with improved error handling and reconnection.
+// Concurrent callers share one connection attempt.
 export const initAbly = async (userId: string) => {
-  // If already initialized and connected, return the existing instance
-  if (ably && ably.connection.state === 'connected') {
-    return ably;
+  // If already initialized and not failed, return the existing connection
+  if (transport && transport.state !== 'failed') {
+    return transport;
   }
+  if (initPromise) return initPromise;
   
   clientId = userId;
   notifyConnectionStateChange('connecting');
   
-  try {
-    // Get the Ably API key from the backend
-    const apiKey = await getAblyApiKey();
-    if (!apiKey) {
-      console.error('Failed to initialize Ably: No API key available');
-      notifyConnectionStateChange('failed');
-      return null;
-    }
-    
-    // Create a new Ably client with enhanced options
-    ably = new Ably.Realtime({
-      key: apiKey,
-      clientId,
-      echoMessages: false, // Don't receive messages sent by this client
-      autoConnect: true,
-      disconnectedRetryTimeout: 15000,
-      suspendedRetryTimeout: 30000,
-    });
-
-    // Enhanced connection state handling
-    ably.connection.on('connected', () => {
-      console.log('Ably connection established');
-      reconnectAttempts = 0; // Reset on successful connection
-      notifyConnectionStateChange('connected');
-    });
-
-    ably.connection.on('connecting', () => {
-      console.log('Ably connecting...');
-      notifyConnectionStateChange('connecting');
-    });
-
-    ably.connection.on('disconnected', () => {
-      console.warn('Ably connection disconnected');
-      notifyConnectionStateChange('disconnected');
-    });
-
-    ably.connection.on('suspended', () => {
-      console.warn('Ably connection suspended');
-      notifyConnectionStateChange('disconnected');
-    });
-
-    ably.connection.on('failed', (err) => {
-      console.error('Ably connection failed:', err);
+  initPromise = (async () => {
+    try {
+      closeTransport();
+      transport = await createTransport();
+      return transport;
+    } catch (error) {
+      console.error('Error initializing realtime client:', error);
       notifyConnectionStateChange('failed');
       
-      // Schedule reconnection
+      // Schedule reconnection on error
       setTimeout(() => {
         if (clientId) {
           scheduleReconnect(clientId);
         }
       }, 1000);
-    });
-
-    ably.connection.on('closed', () => {
-      console.log('Ably connection closed');
-      notifyConnectionStateChange('disconnected');
-    });
-
-    return ably;
-  } catch (error) {
-    console.error('Error initializing Ably client:', error);
-    notifyConnectionStateChange('failed');
-    
-    // Schedule reconnection on error
-    setTimeout(() => {
-      if (clientId) {
-        scheduleReconnect(clientId);
-      }
-    }, 1000);
-    
-    return null;
-  }
+      
+      return null;
+    } finally {
+      initPromise = null;
+    }
+  })();
+  return initPromise;
 };
 
-// Get the Ably client (initialize if needed)
+// Get the realtime connection (initialize if needed)
 export const getAbly = async (userId: string) => {
-  if (!ably) return await initAbly(userId);
-  return ably;
+  if (!transport) return await initAbly(userId);
+  return transport;
 };
 
 // Enhanced subscription with retry logic and error handling
@@ -206,61 +212,41 @@ export const subscribeToChannel = async (
 ): Promise<() => void> => {
   const attemptSubscription = async (retryCount = 0): Promise<() => void> => {
     try {
-      // Make sure Ably is initialized
-      if (!ably || ably.connection.state === 'failed') {
+      // Make sure the connection is initialized
+      let client = transport;
+      if (!client || client.state === 'failed') {
         const userId = clientId || localStorage.getItem('userId') || '';
-        ably = await initAbly(userId);
-        if (!ably) {
-          throw new Error('Failed to initialize Ably');
+        client = await initAbly(userId);
+        if (!client) {
+          throw new Error('Failed to initialize realtime connection');
         }
       }
 
       // Wait for connection if not already connected
-      if (ably.connection.state !== 'connected') {
-        console.log(`Waiting for Ably connection before subscribing to ${channelName}:${eventName}`);
-        await new Promise<void>((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            reject(new Error('Connection timeout'));
-          }, 10000); // 10 second timeout
-
-          if (ably!.connection.state === 'connected') {
-            clearTimeout(timeout);
-            resolve();
-            return;
-          }
-
-          ably!.connection.once('connected', () => {
-            clearTimeout(timeout);
-            resolve();
-          });
-
-          ably!.connection.once('failed', (err) => {
-            clearTimeout(timeout);
-            reject(err);
-          });
-        });
+      if (client.state !== 'connected') {
+        console.log(`Waiting for realtime connection before subscribing to ${channelName}:${eventName}`);
+        await client.whenConnected(10000); // 10 second timeout
       }
 
       console.log(`Subscribing to ${channelName} channel for ${eventName} events`);
-      const channel = ably.channels.get(channelName);
       
       // Enhanced message handler with error handling
-      const messageHandler = (message: Ably.Message) => {
+      const messageHandler = (data: unknown) => {
         try {
-          console.log(`Received on ${channelName}:${eventName}`, message.data);
-          callback(message.data);
+          console.log(`Received on ${channelName}:${eventName}`, data);
+          callback(data);
         } catch (error) {
           console.error(`Error processing message on ${channelName}:${eventName}:`, error);
         }
       };
 
-      channel.subscribe(eventName, messageHandler);
+      const unsubscribe = client.subscribe(channelName, eventName, messageHandler);
 
       // Return enhanced unsubscribe function
       return () => {
         try {
           console.log(`Unsubscribing from ${channelName}:${eventName}`);
-          channel.unsubscribe(eventName, messageHandler);
+          unsubscribe();
         } catch (error) {
           console.error(`Error unsubscribing from ${channelName}:${eventName}:`, error);
         }
@@ -283,32 +269,18 @@ export const subscribeToChannel = async (
   return attemptSubscription();
 };
 
-// Publish to a channel
-export const publishToChannel = async (channelName: string, eventName: string, data: unknown) => {
-  try {
-    // Make sure Ably is initialized
-    if (!ably) {
-      const userId = clientId || localStorage.getItem('userId') || '';
-      ably = await initAbly(userId);
-      if (!ably) {
-        throw new Error('Failed to initialize Ably');
-      }
-    }
-
-    const channel = ably.channels.get(channelName);
-    return await channel.publish(eventName, data);
-  } catch (error) {
-    console.error(`Error publishing to ${channelName}:${eventName}:`, error);
-    throw error;
-  }
-};
-
 // Helper to subscribe to queue updates for a specific station
 export const subscribeToQueueUpdates = async (stationId: string, callback: (data: unknown) => void) => {
   const channelName = CHANNEL_NAMES.QUEUE(stationId);
   return await subscribeToChannel(channelName, EVENT_NAMES.QUEUE_UPDATE, callback);
 };
 
+// Helper to subscribe to the anonymised queue of a station, open to any client
+export const subscribeToBoardUpdates = async (stationId: string, callback: (data: unknown) => void) => {
+  const channelName = CHANNEL_NAMES.BOARD(stationId);
+  return await subscribeToChannel(channelName, EVENT_NAMES.QUEUE_UPDATE, callback);
+};
+
 // Helper to subscribe to station updates
 export const subscribeToStationUpdates = async (callback: (data: unknown) => void) => {
   return await subscribeToChannel(CHANNEL_NAMES.STATIONS, EVENT_NAMES.STATION_UPDATE, callback);
@@ -322,15 +294,8 @@ export const subscribeToMyQueueUpdates = async (userId: string, callback: (data:
 
 // Force reconnection (useful for manual recovery attempts)
 export const forceReconnect = async () => {
-  console.log('Forcing Ably reconnection...');
-  if (ably) {
-    try {
-      ably.close();
-    } catch (error) {
-      console.warn('Error closing existing Ably connection:', error);
-    }
-    ably = null;
-  }
+  console.log('Forcing realtime reconnection...');
+  closeTransport();
   
   const userId = clientId || localStorage.getItem('userId') || '';
   if (userId) {
@@ -346,14 +311,11 @@ export const getConnectionState = () => {
 
 // Health check for the connection
 export const isConnectionHealthy = () => {
-  return ably && ably.connection.state === 'connected';
+  return transport?.state === 'connected';
 };
 
-// Close the Ably connection when no longer needed
+// Close the realtime connection when no longer needed
 export const closeAbly = () => {
-  if (ably) {
-    ably.close();
-    ably = null;
-  }
+  closeTransport();
   notifyConnectionStateChange('disconnected');
 };
@@ -2,46 +2,14 @@ import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import { initAbly } from './ablyUtils';
 import { getApiConfig } from './config/api.config';
+import { getOrSetUserId } from './utils/userIdentity';
 
-// --- UserId persistence logic ---
-let userIdCache: string | null = null;
-
-function getOrSetUserId() {
-  // Return cached value if available
-  if (userIdCache) {
-    return userIdCache;
-  }
-
-  try {
-    let userId = localStorage.getItem('userId');
-    if (!userId) {
-      userId = uuidv4();
-      try {
-        localStorage.setItem('userId', userId);
-      } catch (storageError) {
-        console.warn('Failed to persist userId to localStorage:', storageError);
-        // Continue with the generated userId even if we can't persist it
-      }
-      
-      // Initialize Ably with the new userId in background
-      // Using void to ignore the Promise
-      void (async () => {
-        try {
-          await initAbly(userId);
-        } catch (error) {
-          console.error('Error initializing Ably:', error);
-        }
-      })();
-    }
-    userIdCache = userId;
-    return userId;
-  } catch (error) {
-    console.error('Error accessing localStorage:', error);
-    // Fallback: use a session-based userId if localStorage fails
-    userIdCache ??= uuidv4();
-    return userIdCache;
-  }
-}
+// A new user starts their realtime connection right away, in the background
+const initAblyForNewUser = (userId: string) => {
+  void initAbly(userId).catch(error => {
+    console.error('Error initializing Ably:', error);
+  });
+};
 
 // Get API configuration
 const apiConfig = getApiConfig();
@@ -50,18 +18,108 @@ const api = axios.create({
   baseURL: apiConfig.baseUrl,
   timeout: apiConfig.timeout,
   withCredentials: true,
+  // 304 answers a conditional GET; the interceptor below fills in the cached body
+  validateStatus: status => (status >= 200 && status < 300) || status === 304,
 });
 
+// Last ETag and body of each GET, so repeating an unchanged request costs the server a 304.
+// A 304 resolves with the cached body, so callers that only read `data` need no changes;
+// pollers check for the status to skip their state updates.
+const conditionalCache = new Map<string, { etag: string; data: unknown }>();
+
+const getCacheKey = (config: { method?: string; url?: string; params?: unknown }) =>
+  config.method?.toLowerCase() === 'get' ? `${config.url}${config.params ? JSON.stringify(config.params) : ''}` : null;
+
+// Client errors won't succeed on a retry, except a timeout or rate limit
+const RETRYABLE_CLIENT_STATUSES = [408, 429];
+
+const isRetryableStatus = (status?: number) =>
+  status === undefined || status >= 500 || RETRYABLE_CLIENT_STATUSES.includes(status);
+
+// Methods that can change server state get an idempotency key
+const MUTATING_METHODS = ['post', 'put', 'patch', 'delete'];
+// Methods that are not safe to repeat without the server's help
+const NON_IDEMPOTENT_METHODS = ['post', 'patch'];
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Set once the backend reports that it replays keyed requests
+let serverSupportsIdempotency = false;
+
+const rememberIdempotencySupport = (headers?: Record<string, unknown>) => {
+  if (headers?.['idempotency-supported'] === 'true') {
+    serverSupportsIdempotency = true;
+  }
+};
+
+interface FailedRequest {
+  config?: { method?: string; headers?: Record<string, unknown> };
+  response?: { status: number; headers: Record<string, unknown>; data?: { reason?: string } };
+}
+
+// Retry-After in milliseconds, given as seconds or as an HTTP date; null when absent or unreadable
+const getRetryAfterMs = (headers?: Record<string, unknown>) => {
+  const value = headers?.['retry-after'];
+  if (value === undefined || value === null) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+// Backoff before the next attempt: retryDelay, then doubling
+const getRetryDelay = (retryCount: number) => (apiConfig.retryDelay ?? 1000) * Math.pow(2, retryCount);
+
+const shouldRetry = (error: FailedRequest, delayMs: number) => {
+  const method = error.config?.method?.toLowerCase() ?? 'get';
+  const status = error.response?.status;
+
+  // A rate limit that outlasts the backoff would only be hit again
+  const retryAfterMs = getRetryAfterMs(error.response?.headers);
+  if (status === 429 && retryAfterMs !== null && retryAfterMs > delayMs) {
+    return false;
+  }
+
+  if (!NON_IDEMPOTENT_METHODS.includes(method)) {
+    return isRetryableStatus(status);
+  }
+
+  // A keyed request is only retried when the server confirms it is safe: either the first
+  // attempt is still running, or the response was lost and the server will replay it.
+  // Any other answer is stored under the key, so a retry would just get it back.
+  if (!error.config?.headers?.[IDEMPOTENCY_KEY_HEADER]) {
+    return false;
+  }
+  if (error.response) {
+    return status === 409 && error.response.data?.reason === 'InProgress';
+  }
+  return serverSupportsIdempotency;
+};
+
 // Add retry logic interceptor
 api.interceptors.response.use(
-  response => response,
+  response => {
+    rememberIdempotencySupport(response.headers);
+
+    const cacheKey = getCacheKey(response.config);
+    if (cacheKey) {
+      const cached = conditionalCache.get(cacheKey);
+      if (response.status === 304 && cached) {
+        response.data = cached.data;
+      } else if (response.headers.etag) {
+        conditionalCache.set(cacheKey, { etag: String(response.headers.etag), data: response.data });
+      }
+    }
+    return response;
+  },
   async error => {
     const config = error.config;
+    rememberIdempotencySupport(error.response?.headers);
     
     // Check if we should retry
     config.retryCount ??= 0;
+    const delay = getRetryDelay(config.retryCount);
     
-    if (config.retryCount >= (apiConfig.retryAttempts ?? 3)) {
+    if (config.retryCount >= (apiConfig.retryAttempts ?? 3) || !shouldRetry(error, delay)) {
       // Extract the nested ternary into separate statements
       let errorToReject;
       if (error instanceof Error) {
@@ -77,7 +135,6 @@ api.interceptors.response.use(
     config.retryCount += 1;
     
     // Wait before retrying (exponential backoff)
-    const delay = (apiConfig.retryDelay ?? 1000) * Math.pow(2, config.retryCount - 1);
     await new Promise(resolve => setTimeout(resolve, delay));
     
     // Retry the request
@@ -89,9 +146,19 @@ api.interceptors.response.use(
 api.interceptors.request.use(
   config => {
     try {
-      const userId = getOrSetUserId();
+      const userId = getOrSetUserId(initAblyForNewUser);
       config.headers = config.headers ?? {};
       config.headers['x-user-id'] = userId;
+      // Retries reuse the same config, so they keep the original key
+      if (MUTATING_METHODS.includes(config.method?.toLowerCase() ?? '') && !config.headers[IDEMPOTENCY_KEY_HEADER]) {
+        config.headers[IDEMPOTENCY_KEY_HEADER] = uuidv4();
+      }
+      // Send the validator of the copy we already hold
+      const cacheKey = getCacheKey(config);
+      const cached = cacheKey ? conditionalCache.get(cacheKey) : undefined;
+      if (cached) {
+        config.headers['If-None-Match'] = cached.etag;
+      }
       return config;
     } catch (error) {
       console.error('Error in request interceptor:', error);
@@ -1,24 +1,99 @@
+import type { NotificationType, ToneNote } from '../types/queue.types';
+
 export const NOTIFICATION_ICONS = {
   removed: '❌',
   position: '🔢',
+  called: '📣',
+  recall: '⏰',
   error: '⚠️',
   default: '🔔',
 } as const;
 
 export const NOTIFICATION_SOUND = {
-  frequency: 1200,
-  gain: 0.08,
-  duration: 0.18,
+  // Gain at full volume; the oscillators are loud, so even the maximum stays well below 1
+  maxGain: 0.3,
+  defaultVolume: 0.5,
+} as const;
+
+// A distinct synthesized tone per notification type: rising for good news, falling for bad
+export const NOTIFICATION_TONES: Record<NotificationType, readonly ToneNote[]> = {
+  position: [
+    { frequency: 660, start: 0, duration: 0.12, wave: 'sine' },
+    { frequency: 880, start: 0.14, duration: 0.18, wave: 'sine' },
+  ],
+  called: [
+    { frequency: 784, start: 0, duration: 0.2, wave: 'triangle' },
+    { frequency: 988, start: 0.2, duration: 0.2, wave: 'triangle' },
+    { frequency: 1175, start: 0.4, duration: 0.4, wave: 'triangle' },
+  ],
+  recall: [
+    { frequency: 988, start: 0, duration: 0.18, wave: 'triangle' },
+    { frequency: 659, start: 0.2, duration: 0.35, wave: 'triangle' },
+  ],
+  removed: [
+    { frequency: 523, start: 0, duration: 0.18, wave: 'sine' },
+    { frequency: 392, start: 0.2, duration: 0.3, wave: 'sine' },
+  ],
+  error: [
+    { frequency: 220, start: 0, duration: 0.15, wave: 'square' },
+    { frequency: 220, start: 0.22, duration: 0.15, wave: 'square' },
+  ],
+};
+
+// Notification center history: kept entries, entries per page, and how long a repeat of the
+// newest entry for a station counts as the same event arriving by another path (realtime and polling)
+export const MAX_NOTIFICATIONS = 100;
+export const NOTIFICATIONS_PAGE_SIZE = 10;
+export const NOTIFICATION_DUPLICATE_WINDOW_MS = 2 * 60 * 1000;
+
+export const NOTIFICATION_TYPE_LABELS = {
+  called: 'Called',
+  position: 'Position',
+  recall: 'Missed call',
+  removed: 'Removed',
+  error: 'Error',
+} as const;
+
+// "Tell me when I'm 3rd" unless the user picks something else for a queue
+export const DEFAULT_QUEUE_ALERT_PREFERENCE = {
+  mode: 'threshold',
+  peopleAhead: 2,
 } as const;
 
-export const MAX_NOTIFICATIONS = 10;
+export const QUEUE_ALERT_THRESHOLD_CHOICES = [1, 2, 3, 5, 10] as const;
+
+export const ALERT_ESCALATION = {
+  soundRepeats: 3,
+  soundIntervalMs: 700,
+  vibrationPattern: [300, 100, 300, 100, 300],
+} as const;
 
 export const STORAGE_KEYS = {
   userId: 'userId',
   notifications: 'queueNotifications',
+  alertPreferences: 'queueAlertPreferences',
+  soundSettings: 'notificationSoundSettings',
+  boardAnnouncements: 'boardAnnouncements',
+  myQueuesSnapshot: 'myQueuesSnapshot',
+} as const;
+
+export const TICKET_STATUS_LABELS = {
+  waiting: 'Waiting',
+  called: 'You are being called',
+  serving: 'Being served',
+  completed: 'Completed',
+  no_show: 'No-show',
+  left: 'Left',
+} as const;
+
+// Mirrors the announcement column defaults in prisma/schema.prisma
+export const DEFAULT_ANNOUNCEMENT = {
+  template: 'Number {number}, please proceed to {station}',
+  language: 'en-US',
+  voice: null,
 } as const;
 
 export const UI_CONSTANTS = {
-  notificationBlurTimeout: 200,
   ablyRetryDelay: 5000,
+  missedCallCheckInterval: 15000,
 } as const;
\ No newline at end of file
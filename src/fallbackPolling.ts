@@ -1,29 +1,76 @@
 // Fallback polling utilities for when real-time updates fail
 import api from './api';
-
-interface QueueItem {
-  stationId: string;
-  stationName: string;
-  queueNumber: number;
-}
-
-interface Station {
-  id: string;
-  name: string;
-}
+import type { BoardQueueEntry, QueueItem, QueueSnapshot, Station, StationQueueEntry } from './types/queue.types';
 
 // Polling intervals (in milliseconds)
 const POLLING_INTERVALS = {
   FAST: 2000,    // 2 seconds - when real-time is failed
   NORMAL: 5000,  // 5 seconds - when real-time is unstable
   SLOW: 10000,   // 10 seconds - background polling
+  HIDDEN: 30000, // 30 seconds - nobody is looking at the page
+  MAX_BACKOFF: 60000, // 1 minute - ceiling while the server keeps failing
+};
+
+// Tickets this close to the front are polled at the FAST interval, so the call shows up quickly
+const NEAR_FRONT_POSITION = 3;
+
+export type PollingMode = 'normal' | 'urgent' | 'hidden' | 'backoff';
+
+export interface PollingStatus {
+  mode: PollingMode;
+  /** Delay before the next poll, in milliseconds */
+  intervalMs: number;
+}
+
+// Status listeners, told about the fastest active poller (or null when none is running)
+const activePollers = new Set<FallbackPoller>();
+const pollingStatusListeners: ((status: PollingStatus | null) => void)[] = [];
+
+const getPollingStatus = (): PollingStatus | null => {
+  let fastest: PollingStatus | null = null;
+  activePollers.forEach(poller => {
+    const status = poller.getStatus();
+    if (!fastest || status.intervalMs < fastest.intervalMs) fastest = status;
+  });
+  return fastest;
 };
 
+const notifyPollingStatusChange = () => {
+  const status = getPollingStatus();
+  pollingStatusListeners.forEach(listener => {
+    try {
+      listener(status);
+    } catch (error) {
+      console.error('Error in polling status listener:', error);
+    }
+  });
+};
+
+export const addPollingStatusListener = (listener: (status: PollingStatus | null) => void) => {
+  pollingStatusListeners.push(listener);
+  // Immediately call with current status
+  listener(getPollingStatus());
+};
+
+export const removePollingStatusListener = (listener: (status: PollingStatus | null) => void) => {
+  const index = pollingStatusListeners.indexOf(listener);
+  if (index > -1) {
+    pollingStatusListeners.splice(index, 1);
+  }
+};
+
+const isPageHidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden';
+
+// Polls with a delay worked out before every poll: slower while the page is hidden or the
+// server keeps failing, faster while urgent, and right away when the page comes back into view
 class FallbackPoller {
-  private pollingInterval: NodeJS.Timeout | null = null;
+  private pollingTimeout: ReturnType<typeof setTimeout> | null = null;
   private isPolling = false;
+  private isFetching = false;
   private lastPollTime = 0;
   private pollInterval = POLLING_INTERVALS.NORMAL;
+  private consecutiveErrors = 0;
+  private urgent = false;
   private pollFunction: () => Promise<void>;
   private onError?: (error: Error) => void;
 
@@ -42,39 +89,103 @@ class FallbackPoller {
 
     this.pollInterval = interval;
     this.isPolling = true;
-    
+    this.consecutiveErrors = 0;
+    activePollers.add(this);
+    notifyPollingStatusChange();
+
     console.log(`Starting fallback polling with ${interval}ms interval`);
-    
+
+    window.addEventListener('online', this.pollNow);
+    window.addEventListener('focus', this.pollNow);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+
     // Poll immediately
     this.poll();
-    
-    // Then poll at intervals
-    this.pollingInterval = setInterval(() => {
-      this.poll();
-    }, interval);
   }
 
   stop() {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
-    }
+    this.clearTimer();
     this.isPolling = false;
+    activePollers.delete(this);
+    window.removeEventListener('online', this.pollNow);
+    window.removeEventListener('focus', this.pollNow);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    notifyPollingStatusChange();
     console.log('Fallback polling stopped');
   }
 
+  // Poll straight away, e.g. when the network or the user comes back
+  pollNow = () => {
+    if (!this.isPolling || this.isFetching) return;
+    this.clearTimer();
+    // Whatever failed before may work now
+    this.consecutiveErrors = 0;
+    this.poll();
+  };
+
+  private handleVisibilityChange = () => {
+    if (isPageHidden()) {
+      // Stretch the pending delay; the next poll picks up the hidden interval
+      this.scheduleNext();
+    } else {
+      this.pollNow();
+    }
+  };
+
+  private clearTimer() {
+    if (this.pollingTimeout) {
+      clearTimeout(this.pollingTimeout);
+      this.pollingTimeout = null;
+    }
+  }
+
+  private scheduleNext() {
+    if (!this.isPolling || this.isFetching) return;
+    this.clearTimer();
+    this.pollingTimeout = setTimeout(() => this.poll(), this.getStatus().intervalMs);
+    notifyPollingStatusChange();
+  }
+
   private async poll() {
     if (!this.isPolling) return;
 
+    this.isFetching = true;
     try {
       this.lastPollTime = Date.now();
       await this.pollFunction();
+      this.consecutiveErrors = 0;
     } catch (error) {
+      this.consecutiveErrors++;
       console.error('Fallback polling error:', error);
       if (this.onError) {
         this.onError(error as Error);
       }
+    } finally {
+      this.isFetching = false;
     }
+    this.scheduleNext();
+  }
+
+  // Current mode and the delay it implies; errors win, since hammering a failing server helps nobody
+  getStatus(): PollingStatus {
+    if (this.consecutiveErrors > 0) {
+      const backoff = this.pollInterval * Math.pow(2, this.consecutiveErrors);
+      return { mode: 'backoff', intervalMs: Math.min(backoff, POLLING_INTERVALS.MAX_BACKOFF) };
+    }
+    if (isPageHidden()) {
+      return { mode: 'hidden', intervalMs: Math.max(this.pollInterval, POLLING_INTERVALS.HIDDEN) };
+    }
+    if (this.urgent) {
+      return { mode: 'urgent', intervalMs: Math.min(this.pollInterval, POLLING_INTERVALS.FAST) };
+    }
+    return { mode: 'normal', intervalMs: this.pollInterval };
+  }
+
+  // Mark the polled data as time-critical, e.g. a ticket near the front of its queue
+  setUrgent(urgent: boolean) {
+    if (urgent === this.urgent) return;
+    this.urgent = urgent;
+    this.scheduleNext();
   }
 
   isActive() {
@@ -100,14 +211,18 @@ export const createMyQueuesPoller = (
   const pollFunction = async () => {
     try {
       const res = await api.get<QueueItem[]>('/my-queues');
+      if (res.status === 304) return; // Nothing changed since the last poll
       const queues = Array.isArray(res.data) ? res.data : [];
+      poller.setUrgent(queues.some(q =>
+        q.status === 'called' || (q.actualPosition > 0 && q.actualPosition <= NEAR_FRONT_POSITION)));
       onUpdate(queues);
     } catch (error) {
       throw new Error(`Failed to fetch my queues: ${error}`);
     }
   };
 
-  return new FallbackPoller(pollFunction, onError);
+  const poller = new FallbackPoller(pollFunction, onError);
+  return poller;
 };
 
 export const createStationsPoller = (
@@ -117,6 +232,7 @@ export const createStationsPoller = (
   const pollFunction = async () => {
     try {
       const res = await api.get<Station[]>('/stations');
+      if (res.status === 304) return; // Nothing changed since the last poll
       const stations = Array.isArray(res.data) ? res.data : [];
       onUpdate(stations);
     } catch (error) {
@@ -127,18 +243,20 @@ export const createStationsPoller = (
   return new FallbackPoller(pollFunction, onError);
 };
 
-export const createQueuePoller = (
+// Without a managerId the poller reads the public board view, which has no user ids
+export const createQueuePoller = <T extends BoardQueueEntry = StationQueueEntry>(
   stationId: string,
-  managerId: string,
-  onUpdate: (queue: { user_id: string; position: number }[]) => void,
+  managerId: string | null,
+  onUpdate: (snapshot: QueueSnapshot<T>) => void,
   onError?: (error: Error) => void
 ) => {
+  const url = managerId ? `/queue/${stationId}?managerId=${managerId}` : `/queue/${stationId}/board`;
   const pollFunction = async () => {
     try {
-      const res = await api.get<{ queue: { user_id: string; position: number }[] }>(
-        `/queue/${stationId}?managerId=${managerId}`
-      );
-      onUpdate(res.data.queue || []);
+      const res = await api.get<QueueSnapshot<T>>(url);
+      if (res.status === 304) return; // Nothing changed since the last poll
+      // The sequence number lets callers drop a poll that was overtaken by a real-time message
+      onUpdate({ queue: res.data.queue || [], seq: res.data.seq ?? null });
     } catch (error) {
       throw new Error(`Failed to fetch queue for station ${stationId}: ${error}`);
     }
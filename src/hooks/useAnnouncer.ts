@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+export interface Announcement {
+  text: string;
+  language?: string;
+  voice?: string | null;
+}
+
+const isSpeechSupported = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+// Fill in the {number} and {station} placeholders of an announcement template
+export const formatAnnouncement = (template: string, values: { number: number; station: string }) =>
+  template.replace(/\{number\}/g, String(values.number)).replace(/\{station\}/g, values.station);
+
+const pickVoice = (announcement: Announcement): SpeechSynthesisVoice | undefined => {
+  const voices = window.speechSynthesis.getVoices();
+  if (announcement.voice) {
+    const named = voices.find(v => v.name === announcement.voice);
+    if (named) return named;
+  }
+  // Otherwise let the browser pick a voice for the language
+  return undefined;
+};
+
+// Speaks announcements one at a time, so overlapping calls don't talk over each other
+export const useAnnouncer = () => {
+  const queueRef = useRef<Announcement[]>([]);
+  const speakingRef = useRef(false);
+  // Chrome drops the end event of utterances that get garbage collected
+  const currentRef = useRef<SpeechSynthesisUtterance | null>(null);
+
+  const speakNext = useCallback(function speakNext() {
+    const next = queueRef.current.shift();
+    if (!next) {
+      speakingRef.current = false;
+      currentRef.current = null;
+      return;
+    }
+
+    speakingRef.current = true;
+    try {
+      const utterance = new SpeechSynthesisUtterance(next.text);
+      if (next.language) utterance.lang = next.language;
+      const voice = pickVoice(next);
+      if (voice) utterance.voice = voice;
+      utterance.onend = () => speakNext();
+      utterance.onerror = () => speakNext();
+      currentRef.current = utterance;
+      window.speechSynthesis.speak(utterance);
+    } catch (error) {
+      console.warn('Could not speak announcement:', error);
+      speakNext();
+    }
+  }, []);
+
+  const announce = useCallback((announcement: Announcement) => {
+    if (!isSpeechSupported()) return;
+    queueRef.current.push(announcement);
+    if (!speakingRef.current) speakNext();
+  }, [speakNext]);
+
+  const cancel = useCallback(() => {
+    queueRef.current = [];
+    speakingRef.current = false;
+    currentRef.current = null;
+    if (isSpeechSupported()) window.speechSynthesis.cancel();
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { announce, cancel, supported: isSpeechSupported() };
+};
@@ -1,43 +1,89 @@
-import { useCallback } from 'react';
-import { NOTIFICATION_SOUND } from '../constants/queue.constants';
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import type { NotificationSoundSettings, NotificationType } from '../types/queue.types';
+import {
+  ALERT_ESCALATION,
+  NOTIFICATION_SOUND,
+  NOTIFICATION_TONES,
+  STORAGE_KEYS
+} from '../constants/queue.constants';
+import { playTones, unlockAudioOnGesture } from '../utils/notificationAudio';
 
-interface WindowWithWebkit extends Window {
-  webkitAudioContext?: typeof AudioContext;
-}
+const DEFAULT_SETTINGS: NotificationSoundSettings = { volume: NOTIFICATION_SOUND.defaultVolume, muted: false };
+
+const loadSettings = (): NotificationSoundSettings => {
+  const stored = localStorage.getItem(STORAGE_KEYS.soundSettings);
+  if (!stored) return DEFAULT_SETTINGS;
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// One copy of the settings for the whole page, so the settings panel and every hook that plays
+// sounds agree without threading them through props
+let settings: NotificationSoundSettings | null = null;
+const listeners = new Set<() => void>();
+
+const getSettings = () => (settings ??= loadSettings());
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const updateSettings = (update: Partial<NotificationSoundSettings>) => {
+  settings = { ...getSettings(), ...update };
+  localStorage.setItem(STORAGE_KEYS.soundSettings, JSON.stringify(settings));
+  listeners.forEach(listener => listener());
+};
 
 export const useNotificationSound = () => {
-  const playSound = useCallback(() => {
+  const currentSettings = useSyncExternalStore(subscribe, getSettings);
+
+  useEffect(() => {
+    unlockAudioOnGesture();
+  }, []);
+
+  const playTone = useCallback((type: NotificationType) => {
+    const { volume } = getSettings();
     try {
-      // Check if AudioContext is supported
-      const AudioContextClass = window.AudioContext || (window as WindowWithWebkit).webkitAudioContext;
-      if (!AudioContextClass) {
-        console.warn('AudioContext not supported, skipping notification sound');
-        return;
-      }
-
-      const ctx = new AudioContextClass();
-      const oscillator = ctx.createOscillator();
-      const gainNode = ctx.createGain();
-      
-      oscillator.type = 'sine';
-      oscillator.frequency.value = NOTIFICATION_SOUND.frequency;
-      gainNode.gain.value = NOTIFICATION_SOUND.gain;
-      
-      oscillator.connect(gainNode);
-      gainNode.connect(ctx.destination);
-      
-      oscillator.start();
-      oscillator.stop(ctx.currentTime + NOTIFICATION_SOUND.duration);
-      
-      oscillator.onended = () => {
-        ctx.close().catch(() => {
-          // Ignore close errors
-        });
-      };
+      playTones(NOTIFICATION_TONES[type], volume * NOTIFICATION_SOUND.maxGain);
     } catch (error) {
       console.warn('Could not play notification sound:', error);
     }
   }, []);
 
-  return { playSound };
-};
\ No newline at end of file
+  const playSound = useCallback((type: NotificationType = 'position') => {
+    const { muted, volume } = getSettings();
+    if (muted || volume <= 0) return;
+    playTone(type);
+  }, [playTone]);
+
+  // The tone a few times over, for alerts that must not be missed
+  const playAlert = useCallback((type: NotificationType = 'called') => {
+    for (let i = 0; i < ALERT_ESCALATION.soundRepeats; i++) {
+      setTimeout(() => playSound(type), i * ALERT_ESCALATION.soundIntervalMs);
+    }
+  }, [playSound]);
+
+  const setVolume = useCallback((volume: number) => {
+    updateSettings({ volume: Math.min(Math.max(volume, 0), 1) });
+  }, []);
+
+  const setMuted = useCallback((muted: boolean) => {
+    updateSettings({ muted });
+  }, []);
+
+  return {
+    settings: currentSettings,
+    playSound,
+    playAlert,
+    // Plays even while muted, so the volume can be set before unmuting
+    testSound: playTone,
+    setVolume,
+    setMuted,
+  };
+};
@@ -1,44 +1,106 @@
-import { useState, useCallback, useEffect } from 'react';
-import type { Notification } from '../types/queue.types';
-import { MAX_NOTIFICATIONS, STORAGE_KEYS } from '../constants/queue.constants';
+import { useState, useCallback, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { Notification, NotificationEntry } from '../types/queue.types';
+import {
+  ALERT_ESCALATION,
+  MAX_NOTIFICATIONS,
+  NOTIFICATION_DUPLICATE_WINDOW_MS,
+  STORAGE_KEYS
+} from '../constants/queue.constants';
 import { useNotificationSound } from './useNotificationSound';
 
+// Show an alert outside the page. With a service worker registered, mobile browsers only accept
+// notifications shown through it.
+const showSystemNotification = async (notification: Notification) => {
+  if (!('Notification' in window) || window.Notification.permission !== 'granted') return;
+  const options = { body: notification.msg, tag: `queue:${notification.station}`, icon: '/icon.svg' };
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(notification.station, options);
+    } else {
+      new window.Notification(notification.station, options);
+    }
+  } catch (error) {
+    console.warn('Could not show a system notification:', error);
+  }
+};
+
+// Both the realtime channel and the fallback poller can report the same change. A repeat of
+// the newest entry for that station within a short window is the same event, not a new one.
+const isDuplicate = (notification: Notification, entries: NotificationEntry[]) => {
+  const latest = entries.find(entry => entry.station === notification.station);
+  return latest !== undefined
+    && latest.type === notification.type
+    && latest.msg === notification.msg
+    && Math.abs(notification.ts - latest.ts) < NOTIFICATION_DUPLICATE_WINDOW_MS;
+};
+
+// Entries stored before the notification center existed have no id or read state
+const loadEntries = (): NotificationEntry[] => {
+  const stored = localStorage.getItem(STORAGE_KEYS.notifications);
+  if (!stored) return [];
+  try {
+    const parsed: (Notification & Partial<NotificationEntry>)[] = JSON.parse(stored);
+    return parsed.map(n => ({ ...n, id: n.id ?? uuidv4(), read: n.read ?? true }));
+  } catch {
+    return [];
+  }
+};
+
 export const useNotifications = () => {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [notifications, setNotificationsState] = useState<NotificationEntry[]>(loadEntries);
   const [showDropdown, setShowDropdown] = useState(false);
   const [bellAnimate, setBellAnimate] = useState(false);
-  const { playSound } = useNotificationSound();
-
-  // Load notifications from localStorage on mount
-  useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEYS.notifications);
-    if (stored) {
-      try {
-        setNotifications(JSON.parse(stored));
-      } catch {
-        // Ignore JSON parse errors
-      }
-    }
+  const { playSound, playAlert } = useNotificationSound();
+  // Kept in step with the state so a batch can be checked for duplicates before anything plays
+  const notificationsRef = useRef(notifications);
+
+  const setNotifications = useCallback((update: (prev: NotificationEntry[]) => NotificationEntry[]) => {
+    const updated = update(notificationsRef.current);
+    notificationsRef.current = updated;
+    setNotificationsState(updated);
+    localStorage.setItem(STORAGE_KEYS.notifications, JSON.stringify(updated));
   }, []);
 
   const addNotifications = useCallback((newNotifications: Notification[]) => {
-    if (newNotifications.length === 0) return;
-
-    setNotifications(prev => {
-      const updated = [...newNotifications, ...prev].slice(0, MAX_NOTIFICATIONS);
-      localStorage.setItem(STORAGE_KEYS.notifications, JSON.stringify(updated));
-      return updated;
+    const fresh: NotificationEntry[] = [];
+    newNotifications.forEach(n => {
+      if (isDuplicate(n, [...[...fresh].reverse(), ...notificationsRef.current])) return;
+      fresh.push({ ...n, id: uuidv4(), read: false });
     });
+    if (fresh.length === 0) return;
+
+    setNotifications(prev => [...fresh, ...prev].slice(0, MAX_NOTIFICATIONS));
 
     // Animate bell and play sound
     setBellAnimate(true);
-    playSound();
-  }, [playSound]);
+
+    const escalated = fresh.filter(n => n.escalate);
+    if (escalated.length === 0) {
+      playSound(fresh[0].type);
+      return;
+    }
+    playAlert(escalated[0].type);
+    navigator.vibrate?.([...ALERT_ESCALATION.vibrationPattern]);
+    escalated.forEach(n => void showSystemNotification(n));
+  }, [playSound, playAlert, setNotifications]);
 
   const clearNotifications = useCallback(() => {
-    setNotifications([]);
-    localStorage.setItem(STORAGE_KEYS.notifications, '[]');
-  }, []);
+    setNotifications(() => []);
+  }, [setNotifications]);
+
+  const markRead = useCallback((id: string) => {
+    setNotifications(prev => prev.map(n => (n.id === id ? { ...n, read: true } : n)));
+  }, [setNotifications]);
+
+  const markAllRead = useCallback(() => {
+    setNotifications(prev => prev.map(n => (n.read ? n : { ...n, read: true })));
+  }, [setNotifications]);
+
+  const dismissNotification = useCallback((id: string) => {
+    setNotifications(prev => prev.filter(n => n.id !== id));
+  }, [setNotifications]);
 
   const toggleDropdown = useCallback(() => {
     setShowDropdown(prev => !prev);
@@ -55,7 +117,10 @@ export const useNotifications = () => {
     setBellAnimate,
     addNotifications,
     clearNotifications,
+    markRead,
+    markAllRead,
+    dismissNotification,
     toggleDropdown,
     hideDropdown,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,25 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Tracks navigator.onLine and calls onReconnect when the browser gets its network back
+export const useOnlineStatus = (onReconnect?: () => void) => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const onReconnectRef = useRef(onReconnect);
+  onReconnectRef.current = onReconnect;
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      onReconnectRef.current?.();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return isOnline;
+};
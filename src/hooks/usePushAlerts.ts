@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import api from '../api';
+import type { QueueAlertPreferences } from '../types/queue.types';
+
+export type PushAlertsStatus = 'unsupported' | 'unavailable' | 'denied' | 'off' | 'on';
+
+const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// The service worker is only registered in production builds (see registerServiceWorker)
+const getRegistration = () =>
+  isPushSupported() ? navigator.serviceWorker.getRegistration() : Promise.resolve(undefined);
+
+// PushManager wants the VAPID key as raw bytes
+const decodeBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+// Opt-in Web Push alerts for this device, so a locked phone still hears about its turn.
+// 'unavailable' means the browser could do it but this install can't: no service worker or no server keys.
+// The server only pushes what the per-queue alert preferences allow, so they are sent along.
+export const usePushAlerts = (alertPreferences: QueueAlertPreferences) => {
+  const [status, setStatus] = useState<PushAlertsStatus>(isPushSupported() ? 'off' : 'unsupported');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const alertPreferencesRef = useRef(alertPreferences);
+  alertPreferencesRef.current = alertPreferences;
+  // The preferences the server last received, so unchanged ones aren't sent again
+  const sentPreferencesRef = useRef<QueueAlertPreferences | null>(null);
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+    let cancelled = false;
+
+    const check = async () => {
+      const registration = await getRegistration();
+      if (!registration) return 'unavailable';
+      if (Notification.permission === 'denied') return 'denied';
+      const subscription = await registration.pushManager.getSubscription();
+      if (subscription) return 'on';
+      // The server answers 503 until its VAPID keys are set
+      try {
+        await api.get('/push/public-key');
+        return 'off';
+      } catch {
+        return 'unavailable';
+      }
+    };
+
+    check()
+      .then(next => {
+        if (!cancelled) setStatus(next);
+      })
+      .catch(e => console.error('Push: Could not read the subscription state:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'on' || sentPreferencesRef.current === alertPreferences) return;
+
+    const sync = async () => {
+      const registration = await getRegistration();
+      const subscription = await registration?.pushManager.getSubscription();
+      if (!subscription) return;
+      await api.post('/push/subscriptions', { ...subscription.toJSON(), alertPreferences });
+      sentPreferencesRef.current = alertPreferences;
+    };
+
+    sync().catch(e => console.error('Push: Could not update the alert preferences:', e));
+  }, [status, alertPreferences]);
+
+  const enable = useCallback(async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const registration = await getRegistration();
+      if (!registration) {
+        setStatus('unavailable');
+        return;
+      }
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        setStatus(permission === 'denied' ? 'denied' : 'off');
+        return;
+      }
+
+      const { data } = await api.get<{ publicKey: string }>('/push/public-key');
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: decodeBase64Url(data.publicKey),
+      });
+      const preferences = alertPreferencesRef.current;
+      await api.post('/push/subscriptions', { ...subscription.toJSON(), alertPreferences: preferences });
+      sentPreferencesRef.current = preferences;
+      setStatus('on');
+    } catch (e) {
+      console.error('Push: Could not turn alerts on:', e);
+      setError('Could not turn on alerts for this device. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const disable = useCallback(async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const registration = await getRegistration();
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) {
+        await api.delete('/push/subscriptions', { params: { endpoint: subscription.endpoint } });
+        await subscription.unsubscribe();
+      }
+      setStatus('off');
+    } catch (e) {
+      console.error('Push: Could not turn alerts off:', e);
+      setError('Could not turn off alerts for this device. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  return { status, busy, error, enable, disable };
+};
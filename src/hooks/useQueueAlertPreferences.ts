@@ -0,0 +1,35 @@
+import { useState, useCallback } from 'react';
+import type { QueueAlertPreference, QueueAlertPreferences } from '../types/queue.types';
+import { STORAGE_KEYS } from '../constants/queue.constants';
+
+const loadPreferences = (): QueueAlertPreferences => {
+  const stored = localStorage.getItem(STORAGE_KEYS.alertPreferences);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return {};
+  }
+};
+
+// Per-queue alert preferences, kept in localStorage next to the notifications themselves
+export const useQueueAlertPreferences = () => {
+  const [preferences, setPreferences] = useState<QueueAlertPreferences>(loadPreferences);
+
+  const setPreference = useCallback((stationId: string, preference: QueueAlertPreference) => {
+    setPreferences(prev => {
+      const updated = { ...prev, [stationId]: preference };
+      localStorage.setItem(STORAGE_KEYS.alertPreferences, JSON.stringify(updated));
+      return updated;
+    });
+
+    // Escalated alerts include an OS notification, so ask while the user is choosing
+    if (preference.mode !== 'mute' && 'Notification' in window && window.Notification.permission === 'default') {
+      window.Notification.requestPermission().catch(() => {
+        // The in-page alerts still work without it
+      });
+    }
+  }, []);
+
+  return { preferences, setPreference };
+};
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+import { addConnectionStateListener, removeConnectionStateListener } from '../ablyUtils';
+
+// Calls onReconnect when the realtime connection comes back after dropping. Whatever was
+// published in between is lost, so views use it to reload a snapshot before trusting new messages.
+export const useResyncOnReconnect = (onReconnect: () => void) => {
+  const onReconnectRef = useRef(onReconnect);
+  onReconnectRef.current = onReconnect;
+
+  useEffect(() => {
+    // The first connection is covered by the view's initial fetch
+    let wasConnected = false;
+    let dropped = false;
+
+    const listener = (state: string) => {
+      if (state === 'connected') {
+        if (wasConnected && dropped) {
+          console.log('Realtime connection restored, resyncing');
+          onReconnectRef.current();
+        }
+        wasConnected = true;
+        dropped = false;
+      } else if (state === 'disconnected' || state === 'failed') {
+        dropped = true;
+      }
+    };
+
+    addConnectionStateListener(listener);
+    return () => removeConnectionStateListener(listener);
+  }, []);
+};
@@ -0,0 +1,84 @@
+import { useState, useEffect } from 'react';
+
+export type Route =
+  | { view: 'user'; joinStationId?: string }
+  | { view: 'person'; stationId?: string }
+  | { view: 'admin' }
+  | { view: 'board' };
+
+export type View = Route['view'];
+
+// Fired on window after pushState/replaceState, which don't emit popstate themselves
+const ROUTE_CHANGE_EVENT = 'route-change';
+
+const matchSegment = (pathname: string, prefix: string) => {
+  const match = new RegExp(`^/${prefix}(?:/([^/]+))?/?$`).exec(pathname);
+  if (!match) return null;
+  return { id: match[1] ? decodeURIComponent(match[1]) : undefined };
+};
+
+export const parseRoute = (pathname: string, search = ''): Route => {
+  const join = matchSegment(pathname, 'join');
+  if (join?.id) return { view: 'user', joinStationId: join.id };
+
+  const station = matchSegment(pathname, 'station');
+  if (station) return { view: 'person', stationId: station.id };
+
+  if (matchSegment(pathname, 'admin')) return { view: 'admin' };
+  if (matchSegment(pathname, 'board')) return { view: 'board' };
+
+  // Boards bookmarked before routing existed used ?view=board
+  if (new URLSearchParams(search).get('view') === 'board') return { view: 'board' };
+
+  return { view: 'user' };
+};
+
+export const buildPath = (route: Route): string => {
+  switch (route.view) {
+    case 'user':
+      return route.joinStationId ? `/join/${encodeURIComponent(route.joinStationId)}` : '/';
+    case 'person':
+      return route.stationId ? `/station/${encodeURIComponent(route.stationId)}` : '/station';
+    case 'admin':
+      return '/admin';
+    case 'board':
+      return '/board';
+  }
+};
+
+interface NavigateOptions {
+  replace?: boolean;
+  /** Kept in history.state, so it survives a refresh without appearing in the URL */
+  state?: Record<string, unknown>;
+}
+
+export const navigate = (path: string, { replace = false, state }: NavigateOptions = {}) => {
+  if (replace) {
+    window.history.replaceState(state ?? null, '', path);
+  } else {
+    window.history.pushState(state ?? null, '', path);
+  }
+  window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+};
+
+// Read a value handed over through navigate({ state })
+export const getHistoryState = <T = unknown>(key: string): T | undefined => {
+  const state = window.history.state as Record<string, unknown> | null;
+  return state?.[key] as T | undefined;
+};
+
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname, window.location.search));
+
+  useEffect(() => {
+    const update = () => setRoute(parseRoute(window.location.pathname, window.location.search));
+    window.addEventListener('popstate', update);
+    window.addEventListener(ROUTE_CHANGE_EVENT, update);
+    return () => {
+      window.removeEventListener('popstate', update);
+      window.removeEventListener(ROUTE_CHANGE_EVENT, update);
+    };
+  }, []);
+
+  return route;
+};
@@ -0,0 +1,99 @@
+import * as Ably from 'ably';
+import type {
+  RealtimeConnectionState,
+  RealtimeToken,
+  RealtimeTransport,
+  RealtimeTransportOptions,
+} from '../types/realtime.types';
+
+// How Ably's connection states are reported to the rest of the app
+const STATE_MAP: Partial<Record<Ably.ConnectionState, RealtimeConnectionState>> = {
+  connected: 'connected',
+  connecting: 'connecting',
+  disconnected: 'disconnected',
+  suspended: 'disconnected',
+  closed: 'disconnected',
+  failed: 'failed',
+};
+
+export class AblyTransport implements RealtimeTransport {
+  private client: Ably.Realtime;
+
+  constructor(clientId: string, { initialToken, requestToken, onStateChange }: RealtimeTransportOptions) {
+    // The first authCallback reuses the token fetched while picking the transport
+    let pendingToken: RealtimeToken | null = initialToken;
+
+    // Tokens come from our backend and are renewed through the callback,
+    // so the API key is never exposed to the browser
+    this.client = new Ably.Realtime({
+      authCallback: (_tokenParams, callback) => {
+        const token = pendingToken ? Promise.resolve(pendingToken) : requestToken();
+        pendingToken = null;
+        token
+          .then(tokenRequest => callback(null, tokenRequest as Ably.TokenRequest))
+          .catch(error => {
+            console.error('Error fetching Ably token:', error);
+            callback(error instanceof Error ? error.message : String(error), null);
+          });
+      },
+      clientId: clientId || undefined,
+      echoMessages: false, // Don't receive messages sent by this client
+      autoConnect: true,
+      disconnectedRetryTimeout: 15000,
+      suspendedRetryTimeout: 30000,
+    });
+
+    this.client.connection.on(change => {
+      const state = STATE_MAP[change.current];
+      if (!state) return;
+      if (state === 'failed') {
+        console.error('Ably connection failed:', change.reason);
+      } else {
+        console.log(`Ably connection ${change.current}`);
+      }
+      onStateChange(state);
+    });
+  }
+
+  get state(): RealtimeConnectionState {
+    return STATE_MAP[this.client.connection.state] ?? 'disconnected';
+  }
+
+  whenConnected(timeoutMs: number) {
+    return new Promise<void>((resolve, reject) => {
+      if (this.client.connection.state === 'connected') {
+        resolve();
+        return;
+      }
+
+      const timeout = setTimeout(() => {
+        reject(new Error('Connection timeout'));
+      }, timeoutMs);
+
+      this.client.connection.once('connected', () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+
+      this.client.connection.once('failed', (err) => {
+        clearTimeout(timeout);
+        reject(err);
+      });
+    });
+  }
+
+  subscribe(channelName: string, eventName: string, callback: (data: unknown) => void) {
+    const channel = this.client.channels.get(channelName);
+    const messageHandler = (message: Ably.Message) => callback(message.data);
+    channel.subscribe(eventName, messageHandler);
+    return () => channel.unsubscribe(eventName, messageHandler);
+  }
+
+  async reauthorize() {
+    await this.client.auth.authorize();
+  }
+
+  close() {
+    this.client.close();
+  }
+}
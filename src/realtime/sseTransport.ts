@@ -0,0 +1,158 @@
+import type {
+  RealtimeConnectionState,
+  RealtimeToken,
+  RealtimeTransport,
+  RealtimeTransportOptions,
+  SseToken,
+} from '../types/realtime.types';
+
+const RECONNECT_DELAY_BASE = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+interface SseMessage {
+  channel: string;
+  name: string;
+  data: unknown;
+}
+
+type Listener = { channelName: string; eventName: string; callback: (data: unknown) => void };
+
+export const isSseToken = (token: RealtimeToken): token is SseToken =>
+  (token as SseToken).transport === 'sse';
+
+// Client for the backend's own Server-Sent Events stream. The server sends every message
+// this token may see, so subscribing only registers a local listener.
+export class SseTransport implements RealtimeTransport {
+  private baseUrl: string;
+  private options: RealtimeTransportOptions;
+  private source: EventSource | null = null;
+  private listeners = new Set<Listener>();
+  private stateWaiters = new Set<() => void>();
+  private currentState: RealtimeConnectionState = 'connecting';
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(baseUrl: string, options: RealtimeTransportOptions) {
+    this.baseUrl = baseUrl;
+    this.options = options;
+    this.open(options.initialToken);
+  }
+
+  get state() {
+    return this.currentState;
+  }
+
+  private setState(state: RealtimeConnectionState) {
+    if (state === this.currentState) return;
+    this.currentState = state;
+    this.stateWaiters.forEach(waiter => waiter());
+    this.options.onStateChange(state);
+  }
+
+  private open(token: RealtimeToken) {
+    if (this.closed) return;
+    if (!isSseToken(token)) {
+      console.error('SSE transport received a non-SSE token');
+      this.setState('failed');
+      return;
+    }
+
+    this.source?.close();
+    this.setState('connecting');
+    const source = new EventSource(`${this.baseUrl}/realtime/events?token=${encodeURIComponent(token.token)}`);
+    this.source = source;
+
+    source.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setState('connected');
+    };
+
+    source.onmessage = (event: MessageEvent<string>) => {
+      let message: SseMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch (error) {
+        console.error('SSE: Ignoring malformed message', error);
+        return;
+      }
+      this.listeners.forEach(listener => {
+        if (listener.channelName === message.channel && listener.eventName === message.name) {
+          listener.callback(message.data);
+        }
+      });
+    };
+
+    // The server ends the stream when the token expires, so always reconnect with a fresh one
+    // rather than letting EventSource retry with the old URL
+    source.onerror = () => {
+      if (this.source !== source) return;
+      source.close();
+      this.source = null;
+      this.setState('disconnected');
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.closed || this.reconnectTimer) return;
+    const delay = Math.min(RECONNECT_DELAY_BASE * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+    console.log(`SSE: Reconnecting in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reauthorize().catch(error => {
+        console.error('SSE: Error fetching a new token:', error);
+        this.scheduleReconnect();
+      });
+    }, delay);
+  }
+
+  whenConnected(timeoutMs: number) {
+    return new Promise<void>((resolve, reject) => {
+      const check = () => {
+        if (this.currentState === 'connected') {
+          cleanup();
+          resolve();
+        } else if (this.currentState === 'failed') {
+          cleanup();
+          reject(new Error('Connection failed'));
+        }
+      };
+      const timeout = setTimeout(() => {
+        cleanup();
+        reject(new Error('Connection timeout'));
+      }, timeoutMs);
+      const cleanup = () => {
+        clearTimeout(timeout);
+        this.stateWaiters.delete(check);
+      };
+
+      this.stateWaiters.add(check);
+      check();
+    });
+  }
+
+  subscribe(channelName: string, eventName: string, callback: (data: unknown) => void) {
+    const listener = { channelName, eventName, callback };
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async reauthorize() {
+    const token = await this.options.requestToken();
+    this.open(token);
+  }
+
+  close() {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.source?.close();
+    this.source = null;
+    this.listeners.clear();
+    this.setState('disconnected');
+  }
+}
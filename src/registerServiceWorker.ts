@@ -0,0 +1,12 @@
+// Registers public/sw.js so the app can be installed and its shell opens without a connection.
+// Skipped in development, where a cached shell would hide Vite's hot reloads.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then(registration => console.log('Service worker registered with scope', registration.scope))
+      .catch(error => console.error('Service worker registration failed:', error));
+  });
+};
@@ -1,16 +1,98 @@
 export interface Station {
   id: string;
   name: string;
+  callGraceSeconds?: number;
+  missedCallAction?: MissedCallAction;
+  requeueOffset?: number;
+  maxRecalls?: number;
+  announcementTemplate?: string;
+  announcementLanguage?: string;
+  announcementVoice?: string | null;
 }
 
+export type TicketStatus = 'waiting' | 'called' | 'serving' | 'completed' | 'no_show' | 'left';
+
 export interface QueueItem {
   stationId: string;
   stationName: string;
   queueNumber: number;
-  actualPosition?: number;
+  /** Place among the station's waiting tickets, counted by the server (1 = next); 0 once called */
+  actualPosition: number;
+  status?: TicketStatus;
+  acknowledged?: boolean;
+  /** ISO timestamp after which an unacknowledged call counts as missed */
+  callExpiresAt?: string;
+  /** Server estimate based on the station's recent service times; absent until one is known */
+  estimatedWaitSeconds?: number;
+  /** The station's sequence number when this ticket was read */
+  seq?: number | null;
+}
+
+/** How a station's calls are spoken on display boards */
+export interface AnnouncementSettings {
+  /** Text with {number} and {station} placeholders */
+  template: string;
+  language: string;
+  /** Preferred voice name; null uses the display's default voice for the language */
+  voice: string | null;
+}
+
+/** A ticket as shown on the public display board, with no user id */
+export interface BoardQueueEntry {
+  position: number;
+  status?: TicketStatus;
+}
+
+export interface StationQueueEntry extends BoardQueueEntry {
+  user_id: string;
+  acknowledged?: boolean;
+}
+
+/** A station's queue as returned by the /queue endpoints and published on its channels */
+export interface QueueSnapshot<T> {
+  queue: T[];
+  /** Sequence number of the latest station change included; null if it could not be stamped */
+  seq?: number | null;
+}
+
+/** Payload of EVENT_NAMES.QUEUE_POP on a station's board channel: the ticket that was just called */
+export interface QueuePopEvent {
+  position: number;
+  status: TicketStatus;
+  seq?: number | null;
+}
+
+export type MissedCallAction = 'requeue' | 'no_show';
+
+/** Payload of EVENT_NAMES.TICKET_RECALL on the user's MY_QUEUES channel */
+export interface TicketRecallEvent {
+  stationId: string;
+  stationName: string;
+  queueNumber: number;
+  action: 'requeued' | 'no_show';
 }
 
-export type NotificationType = 'removed' | 'position' | 'error';
+/** One station's numbers from GET /admin/analytics */
+export interface StationAnalytics {
+  stationId: string;
+  stationName: string;
+  joinedCount: number;
+  servedCount: number;
+  noShowCount: number;
+  leftCount: number;
+  avgWaitSeconds: number | null;
+  avgServiceSeconds: number | null;
+  /** Tickets joined per local hour of day, index 0 = midnight */
+  hourlyArrivals: number[];
+}
+
+export interface AnalyticsReport {
+  since: string;
+  days: number;
+  stations: StationAnalytics[];
+}
+
+export type NotificationType = 'removed' | 'position' | 'called' | 'recall' | 'error';
 
 export interface Notification {
   msg: string;
@@ -19,8 +101,52 @@ export interface Notification {
   station: string;
   queueNumber?: number;
   prevQueueNumber?: number;
+  /** The alert that matters (threshold reached or called): also an OS notification, vibration and repeated sound */
+  escalate?: boolean;
+}
+
+/**
+ * A notification as kept in the notification center's history
+ */
+export interface NotificationEntry extends Notification {
+  id: string;
+  read: boolean;
 }
 
+/**
+ * One note of a synthesized notification tone
+ */
+export interface ToneNote {
+  frequency: number;
+  /** Offset from the start of the tone, in seconds */
+  start: number;
+  duration: number;
+  wave: OscillatorType;
+}
+
+export interface NotificationSoundSettings {
+  /** 0 to 1 */
+  volume: number;
+  muted: boolean;
+}
+
+/**
+ * How one queue may notify: on every move, once few enough people are ahead,
+ * only when called, or not at all
+ */
+export type QueueAlertMode = 'all' | 'threshold' | 'called' | 'mute';
+
+export interface QueueAlertPreference {
+  mode: QueueAlertMode;
+  /** Alert when this many people or fewer are ahead; 'all' escalates there too */
+  peopleAhead: number;
+}
+
+/**
+ * Alert preferences keyed by stationId
+ */
+export type QueueAlertPreferences = Record<string, QueueAlertPreference>;
+
 export interface QueueState {
   stations: Station[];
   selected: string;
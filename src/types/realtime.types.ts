@@ -0,0 +1,53 @@
+/**
+ * Realtime transport type definitions
+ */
+
+import type * as Ably from 'ably';
+
+/**
+ * Connection states reported to listeners, whatever the transport
+ */
+export type RealtimeConnectionState = 'connected' | 'connecting' | 'disconnected' | 'failed';
+
+/**
+ * Credentials for the self-hosted Server-Sent Events transport
+ */
+export interface SseToken {
+  transport: 'sse';
+  token: string;
+  /** Expiry as a Unix timestamp in milliseconds */
+  expires: number;
+}
+
+/**
+ * Response of POST /realtime/token: an Ably token request, or an SSE token
+ */
+export type RealtimeToken = Ably.TokenRequest | SseToken;
+
+/**
+ * A realtime connection that delivers channel messages to subscribers
+ */
+export interface RealtimeTransport {
+  /** Current connection state */
+  readonly state: RealtimeConnectionState;
+  /** Resolves once connected; rejects if the connection fails or the timeout passes */
+  whenConnected(timeoutMs: number): Promise<void>;
+  /** Listen for one event on a channel; returns the unsubscribe function */
+  subscribe(channelName: string, eventName: string, callback: (data: unknown) => void): () => void;
+  /** Fetch fresh credentials, e.g. after the client's channel grants changed */
+  reauthorize(): Promise<void>;
+  /** Close the connection for good */
+  close(): void;
+}
+
+/**
+ * Options shared by every transport implementation
+ */
+export interface RealtimeTransportOptions {
+  /** The token already fetched while choosing the transport */
+  initialToken: RealtimeToken;
+  /** Fetch a new token from the backend */
+  requestToken: () => Promise<RealtimeToken>;
+  /** Called whenever the connection state changes */
+  onStateChange: (state: RealtimeConnectionState) => void;
+}
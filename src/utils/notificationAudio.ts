@@ -0,0 +1,81 @@
+import type { ToneNote } from '../types/queue.types';
+
+interface WindowWithWebkit extends Window {
+  webkitAudioContext?: typeof AudioContext;
+}
+
+// Browsers cap how many AudioContexts a page may open, so every sound shares this one
+let sharedContext: AudioContext | null = null;
+let unlockInstalled = false;
+
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchend'] as const;
+
+export const getAudioContext = (): AudioContext | null => {
+  if (sharedContext) return sharedContext;
+  const AudioContextClass = window.AudioContext || (window as WindowWithWebkit).webkitAudioContext;
+  if (!AudioContextClass) return null;
+  sharedContext = new AudioContextClass();
+  return sharedContext;
+};
+
+// Audio starts suspended until the page sees a user gesture. Resume the shared context on the
+// first one, so alerts that arrive later, with no gesture behind them, can still be heard.
+export const unlockAudioOnGesture = () => {
+  if (unlockInstalled) return;
+  unlockInstalled = true;
+
+  const unlock = () => {
+    const ctx = getAudioContext();
+    if (!ctx) return;
+    ctx.resume()
+      .then(() => {
+        if (ctx.state !== 'running') return;
+        UNLOCK_EVENTS.forEach(event => document.removeEventListener(event, unlock, true));
+      })
+      .catch(() => {
+        // Try again on the next gesture
+      });
+  };
+
+  UNLOCK_EVENTS.forEach(event => document.addEventListener(event, unlock, true));
+};
+
+// Schedule a tone's notes on the shared context at the given peak gain
+export const playTones = (notes: readonly ToneNote[], gain: number) => {
+  // Exponential ramps can't reach 0, and silence needs no scheduling anyway
+  if (gain <= 0) return;
+  const ctx = getAudioContext();
+  if (!ctx) {
+    console.warn('AudioContext not supported, skipping notification sound');
+    return;
+  }
+  if (ctx.state === 'suspended') {
+    ctx.resume().catch(() => {
+      // Still locked; the unlock listener will resume it on the next gesture
+    });
+  }
+
+  const now = ctx.currentTime;
+  notes.forEach(note => {
+    const oscillator = ctx.createOscillator();
+    const gainNode = ctx.createGain();
+    const start = now + note.start;
+    const end = start + note.duration;
+
+    oscillator.type = note.wave;
+    oscillator.frequency.value = note.frequency;
+    // Short attack and decay, so notes don't click
+    gainNode.gain.setValueAtTime(0.0001, start);
+    gainNode.gain.exponentialRampToValueAtTime(gain, start + 0.01);
+    gainNode.gain.exponentialRampToValueAtTime(0.0001, end);
+
+    oscillator.connect(gainNode);
+    gainNode.connect(ctx.destination);
+    oscillator.start(start);
+    oscillator.stop(end + 0.02);
+    oscillator.onended = () => {
+      oscillator.disconnect();
+      gainNode.disconnect();
+    };
+  });
+};
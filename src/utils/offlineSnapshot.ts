@@ -0,0 +1,33 @@
+import type { QueueItem } from '../types/queue.types';
+import { STORAGE_KEYS } from '../constants/queue.constants';
+
+/**
+ * The last tickets loaded from /my-queues, kept so they still show without a connection
+ */
+export interface MyQueuesSnapshot {
+  queues: QueueItem[];
+  /** When the tickets were loaded, as a Unix timestamp in milliseconds */
+  savedAt: number;
+}
+
+export const saveMyQueuesSnapshot = (queues: QueueItem[], savedAt = Date.now()) => {
+  try {
+    localStorage.setItem(STORAGE_KEYS.myQueuesSnapshot, JSON.stringify({ queues, savedAt }));
+  } catch (error) {
+    // A full or disabled storage only costs the offline view
+    console.warn('Could not store the offline ticket snapshot:', error);
+  }
+};
+
+export const loadMyQueuesSnapshot = (): MyQueuesSnapshot | null => {
+  try {
+    // Reading throws too when storage is disabled
+    const stored = localStorage.getItem(STORAGE_KEYS.myQueuesSnapshot);
+    if (!stored) return null;
+    const snapshot = JSON.parse(stored) as MyQueuesSnapshot;
+    if (!Array.isArray(snapshot.queues) || typeof snapshot.savedAt !== 'number') return null;
+    return snapshot;
+  } catch {
+    return null;
+  }
+};
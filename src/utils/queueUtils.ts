@@ -1,38 +1,74 @@
-import type { QueueItem, Notification } from '../types/queue.types';
-import { NOTIFICATION_ICONS } from '../constants/queue.constants';
+import type {
+  BoardQueueEntry,
+  QueueItem,
+  QueuePopEvent,
+  QueueSnapshot,
+  Notification,
+  QueueAlertPreference,
+  QueueAlertPreferences,
+  TicketRecallEvent
+} from '../types/queue.types';
+import { DEFAULT_QUEUE_ALERT_PREFERENCE, NOTIFICATION_ICONS } from '../constants/queue.constants';
 
-export const calculateActualPosition = (
-  queues: QueueItem[],
-  targetStationId: string,
-  targetQueueNumber: number
-): number => {
-  const stationQueues = queues.filter(q => q.stationId === targetStationId);
-  // Use toSorted() for immutability, or sort a copy if toSorted() is not available
-  const sortedQueues = [...stationQueues].sort((a, b) => a.queueNumber - b.queueNumber);
-  const position = sortedQueues.findIndex(q => q.queueNumber === targetQueueNumber) + 1;
-  
-  console.log(`calculateActualPosition: Station ${targetStationId}, target queue number ${targetQueueNumber}`);
-  console.log(`  - Station queues:`, stationQueues.map(q => `${q.queueNumber}`));
-  console.log(`  - Sorted queues:`, sortedQueues.map(q => `${q.queueNumber}`));
-  console.log(`  - Calculated position:`, position);
-  
-  return position;
+// Work out a ticket's place among the waiting tickets of a station's line (1st, 2nd, ...),
+// using the order sent on its board channel; 0 once the ticket has left the line
+export const calculateActualPosition = (line: BoardQueueEntry[], queueNumber: number): number => {
+  const waiting = line.filter(entry => !entry.status || entry.status === 'waiting');
+  return waiting.findIndex(entry => entry.position === queueNumber) + 1;
 };
 
+// Apply a QUEUE_POP delta to a station's line: the called ticket stops waiting, which moves everyone behind it up
+export const applyQueuePop = (line: BoardQueueEntry[], pop: QueuePopEvent): BoardQueueEntry[] =>
+  line.map(entry => (entry.position === pop.position ? { ...entry, status: pop.status } : entry));
+
+// Recompute the user's waiting tickets at one station from its line. Tickets that left the line
+// are left alone; their new status arrives on the user's own channel.
+export const applyLinePositions = (
+  queues: QueueItem[],
+  stationId: string,
+  line: QueueSnapshot<BoardQueueEntry>
+): QueueItem[] =>
+  queues.map(q => {
+    if (q.stationId !== stationId || (q.status && q.status !== 'waiting')) return q;
+    const actualPosition = calculateActualPosition(line.queue, q.queueNumber);
+    if (actualPosition === 0) return q;
+    // The estimate is one average service time per person ahead, so it scales with the position
+    const estimatedWaitSeconds = q.estimatedWaitSeconds && q.actualPosition
+      ? Math.round((q.estimatedWaitSeconds / q.actualPosition) * actualPosition)
+      : q.estimatedWaitSeconds;
+    return { ...q, actualPosition, estimatedWaitSeconds, seq: line.seq ?? q.seq };
+  });
+
 export const getNotificationIcon = (type: Notification['type']): string => {
   return NOTIFICATION_ICONS[type] || NOTIFICATION_ICONS.default;
 };
 
+export const getQueueAlertPreference = (
+  preferences: QueueAlertPreferences,
+  stationId: string
+): QueueAlertPreference => preferences[stationId] ?? DEFAULT_QUEUE_ALERT_PREFERENCE;
+
+// People ahead of a waiting ticket; its place in line minus itself
+const peopleAheadOf = (q: QueueItem) => Math.max(q.actualPosition - 1, 0);
+
+const describePeopleAhead = (peopleAhead: number) => {
+  if (peopleAhead === 0) return 'You are next';
+  return `Only ${peopleAhead} ${peopleAhead === 1 ? 'person' : 'people'} ahead of you`;
+};
+
 export const generateNotifications = (
   prevQueues: QueueItem[],
-  currentQueues: QueueItem[]
+  currentQueues: QueueItem[],
+  preferences: QueueAlertPreferences = {}
 ): Notification[] => {
   const notifications: Notification[] = [];
 
   // Check for removed queues
   prevQueues.forEach(prevQ => {
     const nowQ = currentQueues.find(q => q.stationId === prevQ.stationId);
-    if (!nowQ) {
+    if (getQueueAlertPreference(preferences, prevQ.stationId).mode === 'mute') return;
+    // Tickets finished at the counter are expected to disappear; missed calls arrive as recall events
+    if (!nowQ && prevQ.status !== 'called' && prevQ.status !== 'serving') {
       notifications.push({
         msg: `You were removed from "${prevQ.stationName}" queue (# ${prevQ.queueNumber}).`,
         ts: Date.now(),
@@ -46,35 +82,112 @@ export const generateNotifications = (
   // Check for position changes
   currentQueues.forEach(nowQ => {
     const prevQ = prevQueues.find(p => p.stationId === nowQ.stationId);
-    if (prevQ) {
-      const currentActualPosition = nowQ.actualPosition || 1;
-      const prevActualPosition = prevQ.actualPosition || 1;
-      
-      if (currentActualPosition !== prevActualPosition) {
-        if (currentActualPosition < prevActualPosition) {
-          notifications.push({
-            msg: `You moved up in "${nowQ.stationName}" queue! Now position ${currentActualPosition} in line.`,
-            ts: Date.now(),
-            type: 'position',
-            station: nowQ.stationName,
-            queueNumber: currentActualPosition
-          });
-        } else {
-          notifications.push({
-            msg: `Your position in "${nowQ.stationName}" changed to ${currentActualPosition} in line.`,
-            ts: Date.now(),
-            type: 'position',
-            station: nowQ.stationName,
-            queueNumber: currentActualPosition
-          });
-        }
-      }
+    const preference = getQueueAlertPreference(preferences, nowQ.stationId);
+    if (!prevQ || preference.mode === 'mute') return;
+
+    if (nowQ.status === 'called' && prevQ.status !== 'called') {
+      notifications.push({
+        msg: `You are being called at "${nowQ.stationName}" (# ${nowQ.queueNumber}). Please proceed to the station.`,
+        ts: Date.now(),
+        type: 'called',
+        station: nowQ.stationName,
+        queueNumber: nowQ.queueNumber,
+        escalate: true
+      });
+      return;
+    }
+    if (prevQ.status === 'called' && nowQ.status === 'waiting') {
+      notifications.push({
+        msg: `You missed your call at "${nowQ.stationName}" and were moved back to position ${nowQ.actualPosition} in line.`,
+        ts: Date.now(),
+        type: 'recall',
+        station: nowQ.stationName,
+        queueNumber: nowQ.queueNumber
+      });
+      return;
+    }
+    if (nowQ.status === 'called' || nowQ.status === 'serving') {
+      // Already at the counter, "position in line" no longer applies
+      return;
+    }
+    if (preference.mode === 'called') return;
+
+    const currentActualPosition = nowQ.actualPosition;
+    const prevActualPosition = prevQ.actualPosition;
+    if (currentActualPosition === prevActualPosition) return;
+
+    // Crossing the threshold is the one position alert that stands out, whatever the mode
+    const reachedThreshold = currentActualPosition > 0
+      && peopleAheadOf(nowQ) <= preference.peopleAhead
+      && (prevActualPosition <= 0 || peopleAheadOf(prevQ) > preference.peopleAhead);
+    if (reachedThreshold) {
+      notifications.push({
+        msg: `${describePeopleAhead(peopleAheadOf(nowQ))} in "${nowQ.stationName}" queue. Please get ready.`,
+        ts: Date.now(),
+        type: 'position',
+        station: nowQ.stationName,
+        queueNumber: currentActualPosition,
+        escalate: true
+      });
+      return;
+    }
+    if (preference.mode !== 'all') return;
+
+    if (currentActualPosition < prevActualPosition) {
+      notifications.push({
+        msg: `You moved up in "${nowQ.stationName}" queue! Now position ${currentActualPosition} in line.`,
+        ts: Date.now(),
+        type: 'position',
+        station: nowQ.stationName,
+        queueNumber: currentActualPosition
+      });
+    } else {
+      notifications.push({
+        msg: `Your position in "${nowQ.stationName}" changed to ${currentActualPosition} in line.`,
+        ts: Date.now(),
+        type: 'position',
+        station: nowQ.stationName,
+        queueNumber: currentActualPosition
+      });
     }
   });
 
   return notifications;
 };
 
+// Only no-show recalls need a notification here; requeues are picked up by generateNotifications
+export const createRecallNotification = (event: TicketRecallEvent): Notification | null => {
+  if (event.action !== 'no_show') return null;
+  return {
+    msg: `You missed your call at "${event.stationName}" (# ${event.queueNumber}) and your ticket was closed as a no-show.`,
+    ts: Date.now(),
+    type: 'recall',
+    station: event.stationName,
+    prevQueueNumber: event.queueNumber
+  };
+};
+
+export const validateRecallEvent = (data: unknown): data is TicketRecallEvent => {
+  return typeof data === 'object' &&
+    data !== null &&
+    'stationId' in data &&
+    'stationName' in data &&
+    'queueNumber' in data &&
+    'action' in data &&
+    typeof data.stationName === 'string' &&
+    typeof data.queueNumber === 'number' &&
+    (data.action === 'requeued' || data.action === 'no_show');
+};
+
+export const validateQueuePopEvent = (data: unknown): data is QueuePopEvent => {
+  return typeof data === 'object' &&
+    data !== null &&
+    'position' in data &&
+    'status' in data &&
+    typeof data.position === 'number' &&
+    typeof data.status === 'string';
+};
+
 export const validateQueueData = (data: unknown): data is QueueItem[] => {
   if (!Array.isArray(data)) return false;
   
@@ -88,4 +201,25 @@ export const validateQueueData = (data: unknown): data is QueueItem[] => {
     typeof item.stationName === 'string' &&
     typeof item.queueNumber === 'number'
   );
-};
\ No newline at end of file
+};
+
+export type SequenceCheck = 'apply' | 'stale' | 'gap';
+
+// Compare a station message's sequence number with the last one applied. Messages without one
+// are applied as they come, since the server only leaves it out when stamping failed.
+export const checkSequence = (lastSeq: number | null, seq: number | null | undefined): SequenceCheck => {
+  if (seq == null || lastSeq == null) return 'apply';
+  if (seq <= lastSeq) return 'stale';
+  return seq === lastSeq + 1 ? 'apply' : 'gap';
+};
+
+// A snapshot replaces the local copy unless a newer message has already been applied
+export const isSnapshotCurrent = (lastSeq: number | null, seq: number | null | undefined): boolean =>
+  seq == null || lastSeq == null || seq >= lastSeq;
+
+// Keep the newer copy of each ticket when /my-queues responses and messages arrive out of order
+export const reconcileQueueItems = (prevQueues: QueueItem[], currentQueues: QueueItem[]): QueueItem[] =>
+  currentQueues.map(nowQ => {
+    const prevQ = prevQueues.find(p => p.stationId === nowQ.stationId);
+    return prevQ && !isSnapshotCurrent(prevQ.seq ?? null, nowQ.seq) ? prevQ : nowQ;
+  });
@@ -0,0 +1,32 @@
+import { v4 as uuidv4 } from 'uuid';
+import { STORAGE_KEYS } from '../constants/queue.constants';
+
+// Used when localStorage is unavailable, so the id at least lasts for this page load
+let sessionUserId: string | null = null;
+
+/**
+ * This browser's user id, which owns its tickets. Created and stored on first use;
+ * `onCreated` runs only when a new id was made. A claim code moves tickets to another
+ * browser's id, so losing this one no longer loses the tickets.
+ */
+export const getOrSetUserId = (onCreated?: (userId: string) => void): string => {
+  try {
+    const storedUserId = localStorage.getItem(STORAGE_KEYS.userId);
+    if (storedUserId) return storedUserId;
+
+    const userId = sessionUserId ?? uuidv4();
+    try {
+      localStorage.setItem(STORAGE_KEYS.userId, userId);
+    } catch (storageError) {
+      // Continue with the generated userId even if we can't persist it
+      console.warn('Failed to persist userId to localStorage:', storageError);
+    }
+    if (!sessionUserId) onCreated?.(userId);
+    sessionUserId = userId;
+    return userId;
+  } catch (error) {
+    console.error('Error accessing localStorage:', error);
+    sessionUserId ??= uuidv4();
+    return sessionUserId;
+  }
+};
@@ -1,11 +1,39 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
 
 // https://vite.dev/config/
 import { visualizer } from 'rollup-plugin-visualizer';
 
+// Writes the build's files and a version derived from them into the copy of public/sw.js,
+// so the service worker precaches the entry bundle and replaces its cache on every deploy
+const precacheServiceWorker = (): Plugin => ({
+  name: 'precache-service-worker',
+  apply: 'build',
+  writeBundle(options, bundle) {
+    const assets = Object.keys(bundle)
+      .filter(file => !file.endsWith('.html') && !file.endsWith('.map'))
+      .map(file => `/${file}`)
+      .sort();
+    const version = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12);
+
+    const swPath = join(options.dir ?? 'dist', 'sw.js');
+    let source = readFileSync(swPath, 'utf8');
+    for (const [placeholder, value] of [
+      ["const BUILD_VERSION = 'dev';", `const BUILD_VERSION = '${version}';`],
+      ['const BUILD_ASSETS = [];', `const BUILD_ASSETS = ${JSON.stringify(assets)};`],
+    ]) {
+      if (!source.includes(placeholder)) throw new Error(`sw.js no longer contains "${placeholder}"`);
+      source = source.replace(placeholder, value);
+    }
+    writeFileSync(swPath, source);
+  },
+});
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheServiceWorker()],
   build: {
     minify: 'esbuild',
     sourcemap: false,